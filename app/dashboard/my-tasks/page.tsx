@@ -0,0 +1,206 @@
+/**
+ * My Tasks Page - Every open task assigned to the current user,
+ * across all projects, grouped by project and due date
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { Project } from '@/lib/types';
+import { fetchUserProjects } from '@/lib/supabase/projects';
+import { toLocalDate } from '@/lib/date';
+import { TaskComponent } from '@/patterns/composite/TaskComponent';
+import { TaskGroup } from '@/patterns/composite/TaskGroup';
+import { depthFirst } from '@/patterns/composite/TaskIterator';
+import { PRIORITY_LABELS } from '@/components/TaskDetailPanel';
+import { ThemeToggle } from '@/components/theme-toggle';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, CalendarDays, FolderOpen, Loader } from 'lucide-react';
+
+interface AssignedTask {
+  task: TaskComponent;
+  path: string[]; // Titles of the parent tasks
+}
+
+interface DueDateGroup {
+  dueDate: string | null;
+  tasks: AssignedTask[];
+}
+
+interface ProjectTasks {
+  project: Project;
+  groups: DueDateGroup[];
+}
+
+// Open tasks assigned to userId, in tree order (the project root is not a task)
+function collectAssignedTasks(root: TaskGroup, userId: string): AssignedTask[] {
+  return depthFirst(root, { includeRoot: false })
+    .toArray()
+    .filter(({ task }) => !task.completed && task.assigneeIds?.includes(userId))
+    .map(({ task, path }) => ({ task, path: path.slice(1).map((parent) => parent.title) }));
+}
+
+// Earliest due date first, tasks without a due date last
+function groupByDueDate(tasks: AssignedTask[]): DueDateGroup[] {
+  const groups = new Map<string | null, AssignedTask[]>();
+  tasks.forEach((entry) => {
+    const dueDate = entry.task.dueDate ?? null;
+    if (!groups.has(dueDate)) groups.set(dueDate, []);
+    groups.get(dueDate)!.push(entry);
+  });
+
+  return Array.from(groups, ([dueDate, tasks]) => ({ dueDate, tasks })).sort((a, b) => {
+    if (a.dueDate === b.dueDate) return 0;
+    if (a.dueDate === null) return 1;
+    if (b.dueDate === null) return -1;
+    return a.dueDate < b.dueDate ? -1 : 1;
+  });
+}
+
+export default function MyTasksPage() {
+  const { user, loading: authLoading } = useAuth();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!authLoading && user) {
+      loadProjects();
+    }
+  }, [authLoading, user]);
+
+  const loadProjects = async () => {
+    try {
+      setLoading(true);
+      setProjects(await fetchUserProjects());
+    } catch (err: any) {
+      console.error('Failed to load projects:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader className="w-8 h-8 text-foreground animate-spin" />
+      </div>
+    );
+  }
+
+  const today = toLocalDate();
+
+  const projectTasks: ProjectTasks[] = user
+    ? projects
+        .map((project) => ({
+          project,
+          groups: groupByDueDate(collectAssignedTasks(project.root, user.id)),
+        }))
+        .filter(({ groups }) => groups.length > 0)
+    : [];
+
+  const totalTasks = projectTasks.reduce(
+    (sum, { groups }) => sum + groups.reduce((n, group) => n + group.tasks.length, 0),
+    0
+  );
+
+  return (
+    <div className="min-h-screen bg-background transition-colors">
+      {/* Header */}
+      <header className="bg-card border-b border-border sticky top-0 z-10 backdrop-blur-sm">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link
+                href="/dashboard"
+                className="text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <ArrowLeft className="w-6 h-6" />
+              </Link>
+              <div>
+                <h1 className="text-3xl font-bold text-foreground">My Tasks</h1>
+                <p className="text-muted-foreground mt-1">
+                  {totalTasks} open {totalTasks === 1 ? 'task' : 'tasks'} assigned to you
+                </p>
+              </div>
+            </div>
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {error && <p className="text-destructive">{error}</p>}
+
+        {!error && projectTasks.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">Nothing assigned to you. Enjoy!</p>
+          </div>
+        )}
+
+        {projectTasks.map(({ project, groups }) => (
+          <Card key={project.id} className="rounded-2xl border-border p-6">
+            <Link
+              href={`/project/${project.id}`}
+              className="flex items-center gap-2 mb-4 text-xl font-semibold text-foreground hover:underline"
+            >
+              <FolderOpen className="w-5 h-5" />
+              {project.name}
+            </Link>
+
+            <div className="space-y-4">
+              {groups.map(({ dueDate, tasks }) => (
+                <div key={dueDate ?? 'none'}>
+                  <div
+                    className={`flex items-center gap-2 text-sm font-medium mb-2 ${
+                      dueDate && dueDate < today ? 'text-destructive' : 'text-muted-foreground'
+                    }`}
+                  >
+                    <CalendarDays className="w-4 h-4" />
+                    {dueDate === null
+                      ? 'No due date'
+                      : dueDate === today
+                        ? 'Today'
+                        : dueDate < today
+                          ? `Overdue · ${dueDate}`
+                          : dueDate}
+                  </div>
+
+                  <ul className="space-y-2">
+                    {tasks.map(({ task, path }) => (
+                      <li
+                        key={task.id}
+                        className="bg-card border border-border rounded-xl px-4 py-3 flex items-center gap-3"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <div className="text-foreground truncate">{task.title}</div>
+                          {path.length > 0 && (
+                            <div className="text-xs text-muted-foreground truncate">
+                              {path.join(' › ')}
+                            </div>
+                          )}
+                        </div>
+                        {task.priority && (
+                          <Badge
+                            variant={task.priority === 'urgent' ? 'destructive' : 'secondary'}
+                            className="rounded-lg"
+                          >
+                            {PRIORITY_LABELS[task.priority]}
+                          </Badge>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </Card>
+        ))}
+      </main>
+    </div>
+  );
+}
@@ -7,12 +7,17 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
-import { Project } from '@/lib/types';
-import { Plus, FolderOpen, LogOut, User, PlusCircle, Trash2, CheckSquare, Menu, X } from 'lucide-react';
+import { Project, ProjectTemplate } from '@/lib/types';
+import { Plus, FolderOpen, LogOut, User, PlusCircle, Trash2, CheckSquare, Menu, X, Copy } from 'lucide-react';
 import { fetchUserProjects, createProject, deleteProject } from '@/lib/supabase/projects';
+import { fetchTemplates, createProjectFromTemplate } from '@/lib/supabase/templates';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ThemeToggle } from '@/components/theme-toggle';
+import { ProgressModeToggle } from '@/components/ProgressModeToggle';
+import { DuplicateProjectDialog } from '@/components/DuplicateProjectDialog';
+import { computeProgress, type ProgressMode } from '@/patterns/composite/Progress';
+import { StatisticsVisitor } from '@/patterns/composite/visitors';
 import {
   Dialog,
   DialogContent,
@@ -20,8 +25,18 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import Link from 'next/link';
 
+// Radix Select items cannot have an empty value
+const BLANK_PROJECT = 'blank';
+
 export default function DashboardPage() {
   const { user, signOut, loading: authLoading } = useAuth();
   const router = useRouter();
@@ -32,6 +47,11 @@ export default function DashboardPage() {
   const [error, setError] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [progressMode, setProgressMode] = useState<ProgressMode>('count');
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+  const [templateId, setTemplateId] = useState(BLANK_PROJECT);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [duplicatingProject, setDuplicatingProject] = useState<Project | null>(null);
 
   useEffect(() => {
     if (!authLoading && user) {
@@ -52,14 +72,40 @@ export default function DashboardPage() {
     }
   };
 
+  // Templates are loaded each time the create dialog opens
+  useEffect(() => {
+    if (!isCreating) return;
+    fetchTemplates()
+      .then(setTemplates)
+      .catch((err) => console.error('Failed to load templates:', err));
+  }, [isCreating]);
+
+  const selectedTemplate = templates.find((template) => template.id === templateId) ?? null;
+  const missingValues =
+    selectedTemplate?.variables.some((name) => !templateValues[name]?.trim()) ?? false;
+
+  const closeCreateDialog = () => {
+    setNewProjectName('');
+    setTemplateId(BLANK_PROJECT);
+    setTemplateValues({});
+    setIsCreating(false);
+  };
+
   const handleCreateProject = async () => {
-    if (!newProjectName.trim()) return;
+    if (!newProjectName.trim() || missingValues) return;
 
     try {
-      const newProject = await createProject(newProjectName.trim());
+      const newProject = selectedTemplate
+        ? await createProjectFromTemplate(
+            selectedTemplate,
+            newProjectName.trim(),
+            Object.fromEntries(
+              Object.entries(templateValues).map(([name, value]) => [name, value.trim()])
+            )
+          )
+        : await createProject(newProjectName.trim());
       setProjects([newProject, ...projects]);
-      setNewProjectName('');
-      setIsCreating(false);
+      closeCreateDialog();
     } catch (err: any) {
       console.error('Failed to create project:', err);
       alert('Failed to create project: ' + err.message);
@@ -83,22 +129,10 @@ export default function DashboardPage() {
 
   // Calculate statistics
   const totalProjects = projects.length;
-  const totalTasks = projects.reduce(
-    (sum, project) =>
-      sum + project.tasks.reduce((taskSum, task) => taskSum + task.getTaskCount(), 0),
-    0
-  );
-  const completedTasks = projects.reduce(
-    (sum, project) =>
-      sum +
-      project.tasks.reduce(
-        (taskSum, task) => taskSum + task.getCompletedCount(),
-        0
-      ),
-    0
-  );
+  const allTasks = projects.flatMap((project) => project.tasks);
+  const { tasks: totalTasks, completed: completedTasks } = StatisticsVisitor.collect(allTasks);
   const activeTasks = totalTasks - completedTasks;
-  const completionRate = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
+  const completionRate = computeProgress(allTasks, progressMode).percentage;
 
   // Filter projects based on search query
   const filteredProjects = projects.filter((project) =>
@@ -165,6 +199,14 @@ export default function DashboardPage() {
               <span className="text-lg">🎯</span>
               Dashboard
             </Link>
+            <Link
+              href="/dashboard/my-tasks"
+              onClick={() => setIsSidebarOpen(false)}
+              className="flex items-center gap-3 px-4 py-2.5 rounded-xl hover:bg-card text-sm font-medium transition-colors"
+            >
+              <span className="text-lg">✅</span>
+              My Tasks
+            </Link>
 
             {projects.length > 0 && (
               <>
@@ -224,6 +266,9 @@ export default function DashboardPage() {
             </div>
 
             {/* Stats Grid */}
+            <div className="flex justify-end mb-3">
+              <ProgressModeToggle mode={progressMode} onChange={setProgressMode} />
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
               <Card className="rounded-2xl border-border p-6">
                 <div className="flex items-start justify-between mb-4">
@@ -304,7 +349,7 @@ export default function DashboardPage() {
                 <div className="text-3xl font-bold mb-2">{completionRate}%</div>
                 <div className="flex items-center gap-1 text-sm">
                   <span className="text-muted-foreground">
-                    Overall progress
+                    {progressMode === 'effort' ? 'Weighted by effort' : 'Overall progress'}
                   </span>
                 </div>
                 <div className="text-xs text-muted-foreground mt-1">
@@ -327,7 +372,10 @@ export default function DashboardPage() {
             )}
 
             {/* Create Project Dialog */}
-            <Dialog open={isCreating} onOpenChange={setIsCreating}>
+            <Dialog
+              open={isCreating}
+              onOpenChange={(open) => (open ? setIsCreating(true) : closeCreateDialog())}
+            >
               <DialogContent className="rounded-2xl">
                 <DialogHeader>
                   <DialogTitle>Create New Project</DialogTitle>
@@ -345,28 +393,74 @@ export default function DashboardPage() {
                         handleCreateProject();
                       }
                       if (e.key === 'Escape') {
-                        setNewProjectName('');
-                        setIsCreating(false);
+                        closeCreateDialog();
                       }
                     }}
                     placeholder="Project name..."
                     className="w-full px-4 py-2 border border-border bg-background rounded-xl focus:outline-none focus:ring-2 focus:ring-ring text-foreground placeholder:text-muted-foreground"
                     autoFocus
                   />
+                  {templates.length > 0 && (
+                    <Select
+                      value={templateId}
+                      onValueChange={(value) => {
+                        setTemplateId(value);
+                        setTemplateValues({});
+                      }}
+                    >
+                      <SelectTrigger className="rounded-xl" title="Template">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={BLANK_PROJECT}>Blank project</SelectItem>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name}
+                            {template.ownerId !== user?.id && ' (shared)'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {selectedTemplate && (
+                    <div className="space-y-3">
+                      <p className="text-sm text-muted-foreground">
+                        {selectedTemplate.description ??
+                          `${selectedTemplate.root.getTaskCount() - 1} tasks`}
+                      </p>
+                      {selectedTemplate.variables.map((name) => (
+                        <div key={name} className="space-y-1">
+                          <label
+                            htmlFor={`template-variable-${name}`}
+                            className="text-sm font-medium text-foreground"
+                          >
+                            {name}
+                          </label>
+                          <input
+                            id={`template-variable-${name}`}
+                            type="text"
+                            value={templateValues[name] ?? ''}
+                            onChange={(e) =>
+                              setTemplateValues({ ...templateValues, [name]: e.target.value })
+                            }
+                            placeholder={`Value for {{${name}}}`}
+                            className="w-full px-4 py-2 border border-border bg-background rounded-xl focus:outline-none focus:ring-2 focus:ring-ring text-foreground placeholder:text-muted-foreground"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   <div className="flex gap-3 justify-end">
                     <Button
                       variant="outline"
-                      onClick={() => {
-                        setNewProjectName('');
-                        setIsCreating(false);
-                      }}
+                      onClick={closeCreateDialog}
                       className="rounded-xl"
                     >
                       Cancel
                     </Button>
                     <Button
                       onClick={handleCreateProject}
-                      disabled={!newProjectName.trim()}
+                      disabled={!newProjectName.trim() || missingValues}
                       className="rounded-xl"
                     >
                       Create Project
@@ -376,6 +470,12 @@ export default function DashboardPage() {
               </DialogContent>
             </Dialog>
 
+            <DuplicateProjectDialog
+              project={duplicatingProject}
+              onClose={() => setDuplicatingProject(null)}
+              onDuplicated={(copy) => setProjects((current) => [copy, ...current])}
+            />
+
             {projects.length > 0 && filteredProjects.length === 0 && (
               <div className="text-center py-12">
                 <p className="text-muted-foreground">No projects found matching &ldquo;{searchQuery}&rdquo;</p>
@@ -389,14 +489,7 @@ export default function DashboardPage() {
                     (sum, task) => sum + task.getTaskCount(),
                     0
                   );
-                  const projectCompletedTasks = project.tasks.reduce(
-                    (sum, task) => sum + task.getCompletedCount(),
-                    0
-                  );
-                  const projectProgress =
-                    projectTotalTasks > 0
-                      ? Math.round((projectCompletedTasks / projectTotalTasks) * 100)
-                      : 0;
+                  const projectProgress = computeProgress(project.tasks, progressMode);
 
                   return (
                     <Card key={project.id} className="rounded-2xl border-border p-6 hover:shadow-lg transition-shadow">
@@ -407,19 +500,33 @@ export default function DashboardPage() {
                             {projectTotalTasks} {projectTotalTasks === 1 ? 'task' : 'tasks'}
                           </p>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="rounded-lg h-8 w-8"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            if (confirm(`Delete project "${project.name}"?`)) {
-                              handleDeleteProject(project.id);
-                            }
-                          }}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="rounded-lg h-8 w-8"
+                            title="Duplicate project"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setDuplicatingProject(project);
+                            }}
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="rounded-lg h-8 w-8"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              if (confirm(`Delete project "${project.name}"?`)) {
+                                handleDeleteProject(project.id);
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
                       </div>
 
                       {projectTotalTasks > 0 && (
@@ -427,13 +534,14 @@ export default function DashboardPage() {
                           <div className="flex justify-between text-sm mb-3">
                             <span className="text-muted-foreground">Progress</span>
                             <span className="font-medium">
-                              {projectCompletedTasks} / {projectTotalTasks}
+                              {projectProgress.completed} / {projectProgress.total}
+                              {progressMode === 'effort' && ' effort'}
                             </span>
                           </div>
                           <div className="h-2 rounded-full bg-secondary overflow-hidden">
                             <div
                               className="h-full bg-primary transition-all duration-500 rounded-full"
-                              style={{ width: `${projectProgress}%` }}
+                              style={{ width: `${projectProgress.percentage}%` }}
                             />
                           </div>
                         </div>
@@ -5,18 +5,28 @@
 
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { Project } from '@/lib/types';
 import { SortableTaskItem } from '@/components/SortableTaskItem';
 import { History } from '@/components/History';
 import { MemberManagement } from '@/components/MemberManagement';
+import { TaskDetailPanel, type AssigneeOption } from '@/components/TaskDetailPanel';
+import { SaveTemplateDialog } from '@/components/SaveTemplateDialog';
+import { BulkActionBar, type MoveTarget } from '@/components/BulkActionBar';
 import { ThemeToggle } from '@/components/theme-toggle';
-import { ArrowLeft, Plus, Loader, Edit2, Check, X } from 'lucide-react';
+import { ArrowLeft, Plus, Loader, Edit2, Check, X, LayoutTemplate } from 'lucide-react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 
 // Drag and Drop
 import {
@@ -29,7 +39,6 @@ import {
   DragEndEvent,
 } from '@dnd-kit/core';
 import {
-  arrayMove,
   SortableContext,
   sortableKeyboardCoordinates,
   verticalListSortingStrategy,
@@ -40,26 +49,91 @@ import {
   fetchProject,
   createTask,
   updateTaskTitle,
-  toggleTaskCompletion,
+  updateTaskMetadata,
+  setTasksCompletion,
   deleteTask,
+  restoreTasks,
+  snapshotTaskTree,
   saveCommandHistory,
   loadCommandHistory,
   reorderTasks,
 } from '@/lib/supabase/tasks';
 import { updateProject } from '@/lib/supabase/projects';
-import { getUserProjectRole, type MemberRole } from '@/lib/supabase/members';
+import {
+  canPerformAction,
+  getMemberDisplayName,
+  getProjectMemberProfiles,
+  getUserProjectRole,
+  type MemberRole,
+} from '@/lib/supabase/members';
+import { generateKeyBetween } from '@/lib/sortKey';
+import { toLocalDate } from '@/lib/date';
+import { getTelemetrySink } from '@/lib/telemetry';
 
 // Design Patterns
 import { taskStore } from '@/patterns/observer/TaskStore';
 import { useObserver } from '@/patterns/observer';
 import {
+  AddDependencyCommand,
+  AssignTaskCommand,
+  CreateOccurrenceCommand,
   CreateTaskCommand,
+  DeleteTaskCommand,
+  DuplicateTaskCommand,
   EditTaskCommand,
+  MacroCommand,
+  MoveTaskCommand,
+  RemoveDependencyCommand,
   ToggleStatusCommand,
+  UpdateTaskMetadataCommand,
+  latencyMiddleware,
+  loggingMiddleware,
+  permissionMiddleware,
+  readMetadata,
+  validationMiddleware,
+  type Command,
+  type CommandCallbacks,
+  type CommandContext,
+  type MacroStep,
+  type ParentGroup,
+  type TaskMetadataChanges,
 } from '@/patterns/command';
 import { TaskGroup } from '@/patterns/composite/TaskGroup';
 import { Task } from '@/patterns/composite/Task';
 import { TaskComponent } from '@/patterns/composite/TaskComponent';
+import { serializeTree, type TaskJSON } from '@/patterns/composite/TaskSchema';
+import {
+  COMPLETION_POLICIES,
+  getPropagatedTasks,
+  type CompletionPolicy,
+} from '@/patterns/composite/CompletionPolicy';
+import {
+  getDependents,
+  getOpenBlockers,
+  wouldCreateCycle,
+} from '@/patterns/composite/Dependencies';
+import { depthFirst } from '@/patterns/composite/TaskIterator';
+import { createNextOccurrence } from '@/patterns/composite/Recurrence';
+import { cloneTree } from '@/patterns/composite/TaskClone';
+
+const COMPLETION_POLICY_LABELS: Record<CompletionPolicy, string> = {
+  manual: 'Manual completion',
+  'auto-complete-parent': 'Auto-complete parents',
+  cascade: 'Cascade to subtasks',
+};
+
+// Undo history budgets offered in the project settings
+const HISTORY_LIMITS = [10, 20, 50, 100, 200];
+
+// Commands slower than this (persistence included) are reported to telemetry
+const SLOW_COMMAND_MS = 2000;
+
+// The group a new child goes into: a leaf is only promoted when the command runs
+function toParentGroup(root: TaskGroup, taskId: string): ParentGroup | null {
+  const task = root.findTask(taskId);
+  if (!task || task instanceof TaskGroup) return task;
+  return { id: taskId, resolve: () => root.promoteToGroup(taskId) };
+}
 
 export default function ProjectPage() {
   const { user, loading: authLoading } = useAuth();
@@ -75,14 +149,31 @@ export default function ProjectPage() {
   const [currentUserRole, setCurrentUserRole] = useState<MemberRole | 'owner' | null>(null);
   const [isEditingProjectName, setIsEditingProjectName] = useState(false);
   const [editedProjectName, setEditedProjectName] = useState('');
+  const [detailTaskId, setDetailTaskId] = useState<string | null>(null);
+  const [assignableMembers, setAssignableMembers] = useState<AssigneeOption[]>([]);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Last task clicked without Shift: start of the next Shift-click range
+  const selectionAnchor = useRef<string | null>(null);
+
+  // Role read by the permission middleware when a command runs
+  const userRole = useRef<MemberRole | 'owner' | null>(null);
+
+  // Last history snapshot written to Supabase, and the pending save
+  const lastSavedHistory = useRef('');
+  const historySave = useRef<Promise<void>>(Promise.resolve());
 
   // PATTERN OBSERVER - Re-render when tasks change
   const [, forceUpdate] = useState(0);
-  useObserver(taskStore, () => {
+  useObserver(taskStore, (event) => {
     const updatedProject = taskStore.getProject(projectId);
     if (updatedProject) {
       setProject({ ...updatedProject });
     }
+    if (event.type === 'HISTORY_CHANGED') {
+      persistHistory();
+    }
     forceUpdate((n) => n + 1);
   });
 
@@ -101,15 +192,33 @@ export default function ProjectPage() {
     }
   }, [authLoading, user, projectId]);
 
-  // Save command history when leaving
+  // Escape clears the multi-selection
   useEffect(() => {
-    return () => {
-      if (project?.commandManager) {
-        const history = project.commandManager.exportHistory();
-        saveCommandHistory(projectId, history).catch(console.error);
-      }
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      setSelectedIds([]);
+      selectionAnchor.current = null;
     };
-  }, [projectId, project?.commandManager]);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Save command history (with full command payloads) whenever it changes,
+  // so undo/redo survives a reload. Saves are chained to keep them ordered.
+  const persistHistory = () => {
+    const commandManager = taskStore.getProject(projectId)?.commandManager;
+    // A jump through the history is saved once, when its last step is done
+    if (!commandManager || commandManager.isPending()) return;
+
+    const history = commandManager.exportHistory();
+    const snapshot = JSON.stringify(history);
+    if (snapshot === lastSavedHistory.current) return;
+    lastSavedHistory.current = snapshot;
+
+    historySave.current = historySave.current
+      .then(() => saveCommandHistory(projectId, history))
+      .catch(console.error);
+  };
 
   const loadProject = async () => {
     try {
@@ -131,19 +240,31 @@ export default function ProjectPage() {
       // Get current user's role in this project
       if (user) {
         const role = await getUserProjectRole(projectId, user.id);
+        userRole.current = role;
         setCurrentUserRole(role);
       }
 
+      // Owner and members can be assigned to tasks
+      const profiles = await getProjectMemberProfiles(projectId).catch(() => []);
+      setAssignableMembers(
+        profiles.map((profile) => ({
+          userId: profile.user_id,
+          label: profile.user_id === user?.id ? 'Me' : getMemberDisplayName(profile),
+        }))
+      );
+
       // Initialize taskStore with the project
       if (!taskStore.isStoreInitialized()) {
-        taskStore.initialize([data]);
+        taskStore.initialize([data], createCommandContext);
       } else {
         // Update existing project in store
         const currentProjects = taskStore.getProjects();
         const otherProjects = currentProjects.filter((p) => p.id !== projectId);
-        taskStore.initialize([...otherProjects, data]);
+        taskStore.initialize([...otherProjects, data], createCommandContext);
       }
 
+      taskStore.getCommandManager(projectId)?.setMiddlewares(createCommandMiddlewares());
+
       const storeProject = taskStore.getProject(projectId);
       if (storeProject) {
         setProject(storeProject);
@@ -156,25 +277,219 @@ export default function ProjectPage() {
     }
   };
 
+  // Show the optimistic change, then wait for Supabase. A rejection makes the
+  // command roll back its in-memory change (see applyWithRollback).
+  const persist = async (write: () => Promise<unknown>) => {
+    taskStore.refresh();
+    await write();
+  };
+
+  // PATTERN COMMAND - Persistence callbacks, shared by new commands
+  // and commands rebuilt from the saved history
+  const getCommandCallbacks = (type: string, data: Record<string, any>): CommandCallbacks => {
+    switch (type) {
+      case ToggleStatusCommand.TYPE: {
+        // Toggle is its own inverse: persist the current status of the task
+        // and of every task the completion policy changed with it
+        const persistStatus = () =>
+          persist(async () => {
+            const root = taskStore.getProject(projectId)?.root;
+            if (!root) return;
+            const updates = [data.taskId, ...(data.propagatedIds ?? [])]
+              .map((id: string) => root.findTask(id))
+              .filter((task): task is TaskComponent => task !== null)
+              .map((task) => ({ id: task.id, completed: task.completed }));
+            await setTasksCompletion(updates);
+          });
+        return { onExecute: persistStatus, onUndo: persistStatus };
+      }
+
+      case EditTaskCommand.TYPE:
+        return {
+          onExecute: () => persist(() => updateTaskTitle(data.taskId, data.newTitle)),
+          onUndo: () => persist(() => updateTaskTitle(data.taskId, data.oldTitle)),
+        };
+
+      case UpdateTaskMetadataCommand.TYPE: {
+        // Both directions persist the task's current values of the changed fields
+        const persistFields = () =>
+          persist(async () => {
+            const task = taskStore.getProject(projectId)?.root.findTask(data.taskId);
+            if (!task) return;
+            await updateTaskMetadata(task.id, readMetadata(task, data.newValues));
+          });
+        return { onExecute: persistFields, onUndo: persistFields };
+      }
+
+      case AssignTaskCommand.TYPE:
+        return {
+          onExecute: () =>
+            persist(() => updateTaskMetadata(data.taskId, { assigneeIds: data.newAssigneeIds })),
+          onUndo: () =>
+            persist(() => updateTaskMetadata(data.taskId, { assigneeIds: data.oldAssigneeIds })),
+        };
+
+      case AddDependencyCommand.TYPE:
+      case RemoveDependencyCommand.TYPE: {
+        // Both directions persist the blockers currently on the task
+        const persistBlockers = () =>
+          persist(async () => {
+            const task = taskStore.getProject(projectId)?.root.findTask(data.taskId);
+            if (!task) return;
+            await updateTaskMetadata(task.id, { blockedByIds: task.blockedByIds ?? [] });
+          });
+        return { onExecute: persistBlockers, onUndo: persistBlockers };
+      }
+
+      case CreateTaskCommand.TYPE:
+        return {
+          // The row is only written once the middlewares accepted the command.
+          // The server picks its sort key, copied onto the task in memory.
+          onExecute: () =>
+            persist(async () => {
+              const [row] = data.snapshot ?? [];
+              if (!row) return;
+              const sortKey = await createTask(row);
+              const task = taskStore.getProject(projectId)?.root.findTask(row.id);
+              if (task) task.sortKey = sortKey;
+            }),
+          // Older histories only stored the task node (data.task.id)
+          onUndo: () => persist(() => deleteTask(data.taskId ?? data.task.id)),
+        };
+
+      case CreateOccurrenceCommand.TYPE:
+        return {
+          // The recurrence rule moves from the completed occurrence to the new one
+          onExecute: () =>
+            persist(async () => {
+              await restoreTasks(data.snapshot ?? []);
+              await updateTaskMetadata(data.previousId, { recurrence: null });
+            }),
+          onUndo: () =>
+            persist(async () => {
+              await deleteTask(data.taskId);
+              await updateTaskMetadata(data.previousId, { recurrence: data.recurrence ?? null });
+            }),
+        };
+
+      case DuplicateTaskCommand.TYPE:
+        return {
+          // Every row of the copy is written in one upsert
+          onExecute: () => persist(() => restoreTasks(data.snapshot ?? [])),
+          // Descendants are removed by ON DELETE CASCADE
+          onUndo: () => persist(() => deleteTask(data.taskId)),
+        };
+
+      case MoveTaskCommand.TYPE: {
+        // Only the moved row is written: its parent and fractional sort key
+        const persistLocation = (parentId: string, sortKey?: string) =>
+          persist(() =>
+            reorderTasks([
+              { id: data.taskId, sortKey, parentId: parentId === projectId ? null : parentId },
+            ])
+          );
+        return {
+          onExecute: () => persistLocation(data.toParentId, data.toSortKey),
+          onUndo: () => persistLocation(data.fromParentId, data.fromSortKey),
+        };
+      }
+
+      case DeleteTaskCommand.TYPE:
+        return {
+          // Children are removed by ON DELETE CASCADE, and the deleted tasks
+          // are pruned from the other tasks' blockers by a trigger
+          onExecute: () => persist(() => deleteTask(data.taskId)),
+          onUndo: () =>
+            persist(async () => {
+              // The command has put the subtree and the pruned blockers back in
+              // memory: write them as they are now, edits made since the first
+              // delete included
+              const root = taskStore.getProject(projectId)?.root;
+              const task = root?.findTask(data.taskId);
+              const parent = root?.findParent(data.taskId);
+              if (!root || !task || !parent) return;
+
+              const rows = snapshotTaskTree(
+                projectId,
+                parent.id === projectId ? null : parent.id,
+                task
+              );
+              await restoreTasks(rows);
+              const deletedIds = rows.map((row) => row.id);
+              await Promise.all(
+                getDependents(root, deletedIds).map((task) =>
+                  updateTaskMetadata(task.id, { blockedByIds: task.blockedByIds ?? [] })
+                )
+              );
+            }),
+        };
+
+      default:
+        return {};
+    }
+  };
+
+  // PATTERN COMMAND - Context used by the CommandRegistry to rebuild saved commands
+  const createCommandContext = (storeProject: Project): CommandContext => ({
+    getRoot: () => storeProject.root,
+    findTask: (taskId) => storeProject.root.findTask(taskId),
+    // Resolved when the command runs: the parent may only come back with a later undo
+    findGroup: (taskId) => ({
+      id: taskId,
+      resolve: () => storeProject.root.promoteToGroup(taskId),
+    }),
+    getCallbacks: getCommandCallbacks,
+  });
+
+  // PATTERN COMMAND - Checks shared by every execute / undo / redo of the project:
+  // viewers cannot change tasks and titles are validated. When telemetry is on,
+  // each operation and each slow command is also reported to its sink.
+  const createCommandMiddlewares = () => {
+    const checks = [
+      permissionMiddleware(() => canPerformAction(userRole.current, 'editor')),
+      validationMiddleware(),
+    ];
+    const telemetry = getTelemetrySink();
+    if (!telemetry) return checks;
+
+    return [
+      loggingMiddleware((event) => telemetry({ kind: 'command', event })),
+      ...checks,
+      latencyMiddleware((latency) => {
+        if (latency.durationMs > SLOW_COMMAND_MS) telemetry({ kind: 'slow-command', latency });
+      }),
+    ];
+  };
+
+  // PATTERN COMMAND - Run a command and record it in the history.
+  // Resolves to false if persistence failed (the change was rolled back).
+  const executeCommand = async (command: Command): Promise<boolean> => {
+    const commandManager = taskStore.getCommandManager(projectId);
+    if (!commandManager) return false;
+
+    return commandManager.execute(command);
+  };
+
   // PATTERN COMMAND - Add new task
   const handleAddTask = async () => {
     if (!newTaskTitle.trim() || !project) return;
 
     try {
-      // Create task in Supabase first to get the ID
-      const newTask = await createTask(projectId, newTaskTitle.trim());
-
-      // Create a TaskGroup for the new task (to allow subtasks)
-      const newTaskGroup = new TaskGroup(newTask.id, newTask.title, newTask.completed, []);
-
-      // Add directly to project tasks (no parent group needed)
-      const commandManager = taskStore.getCommandManager(projectId);
-      if (commandManager) {
-        // We need to create a temporary parent to use CreateTaskCommand
-        // Or we can directly add to the project
-        project.tasks.push(newTaskGroup);
-        taskStore.refresh();
-      }
+      // Root tasks are groups, children of the project's root TaskGroup.
+      // The command inserts the row (see getCommandCallbacks).
+      const newTask = new TaskGroup(crypto.randomUUID(), newTaskTitle.trim());
+      const snapshot = snapshotTaskTree(projectId, null, newTask);
+
+      const { onExecute, onUndo } = getCommandCallbacks(CreateTaskCommand.TYPE, {
+        taskId: newTask.id,
+        task: serializeTree(newTask),
+        parentId: project.root.id,
+        snapshot,
+      });
+      const created = await executeCommand(
+        new CreateTaskCommand(newTask, project.root, snapshot, onExecute, onUndo)
+      );
+      if (!created) return;
 
       setNewTaskTitle('');
       setIsAddingTask(false);
@@ -184,82 +499,209 @@ export default function ProjectPage() {
     }
   };
 
+  // Completing a task before its blockers needs confirmation
+  const confirmOpenBlockers = (tasks: TaskComponent[]): boolean => {
+    if (!project) return false;
+
+    const blocked = tasks
+      .filter((task) => !task.completed)
+      .map((task) => ({ task, blockers: getOpenBlockers(project.root, task) }))
+      .filter(({ blockers }) => blockers.length > 0);
+    if (blocked.length === 0) return true;
+
+    return confirm(
+      blocked
+        .map(
+          ({ task, blockers }) =>
+            `"${task.title}" is blocked by ${blockers
+              .map((blocker) => `"${blocker.title}"`)
+              .join(', ')}.`
+        )
+        .join('\n') + (blocked.length === 1 ? ' Complete it anyway?' : '\nComplete anyway?')
+    );
+  };
+
+  // Toggle command for the task and every task the project's completion
+  // policy changes with it (parents / children)
+  const buildToggleCommand = (task: TaskComponent) => {
+    if (!project) return null;
+
+    const propagated = getPropagatedTasks(project.root, task, project.completionPolicy);
+
+    const { onExecute, onUndo } = getCommandCallbacks(ToggleStatusCommand.TYPE, {
+      taskId: task.id,
+      propagatedIds: propagated.map((t) => t.id),
+    });
+    return {
+      command: new ToggleStatusCommand(task, propagated, onExecute, onUndo),
+      propagated,
+    };
+  };
+
+  // Next occurrence of a completed recurring task, inserted right after it.
+  // A broken rule only skips the occurrence: the completion itself stands.
+  const buildOccurrenceCommand = (task: TaskComponent): Command | null => {
+    if (!project) return null;
+
+    const parent = project.root.findParent(task.id);
+    if (!parent) return null;
+
+    try {
+      const occurrence = createNextOccurrence(task, toLocalDate(), () => crypto.randomUUID());
+      if (!occurrence) return null;
+
+      const next = parent.children[parent.children.indexOf(task) + 1];
+      occurrence.sortKey = generateKeyBetween(task.sortKey ?? null, next?.sortKey ?? null);
+
+      const snapshot = snapshotTaskTree(
+        projectId,
+        parent === project.root ? null : parent.id,
+        occurrence
+      );
+
+      const { onExecute, onUndo } = getCommandCallbacks(CreateOccurrenceCommand.TYPE, {
+        taskId: occurrence.id,
+        previousId: task.id,
+        recurrence: task.recurrence,
+        snapshot,
+      });
+      return new CreateOccurrenceCommand(task, occurrence, parent, snapshot, onExecute, onUndo);
+    } catch (err: any) {
+      console.error('Failed to schedule next occurrence:', err);
+      alert('Failed to schedule next occurrence: ' + err.message);
+      return null;
+    }
+  };
+
+  // Occurrence steps for recurring tasks, run once the previous steps
+  // have completed them
+  const occurrenceSteps = (tasks: TaskComponent[]): MacroStep[] =>
+    tasks
+      .filter((task) => task.recurrence)
+      .map((task) => () => (task.completed ? buildOccurrenceCommand(task) : null));
+
   // PATTERN COMMAND - Toggle task completion
   const handleToggleTask = async (taskId: string) => {
     if (!project) return;
 
-    const task = findTaskById(project.tasks, taskId);
-    if (!task) return;
+    const task = project.root.findTask(taskId);
+    if (!task || !confirmOpenBlockers([task])) return;
 
-    const commandManager = taskStore.getCommandManager(projectId);
-    if (!commandManager) return;
-
-    const newStatus = !task.completed;
-
-    const command = new ToggleStatusCommand(
-      task,
-      () => {
-        // onExecute: update Supabase
-        toggleTaskCompletion(taskId, newStatus).catch(console.error);
-        taskStore.refresh();
-      },
-      () => {
-        // onUndo: revert in Supabase
-        toggleTaskCompletion(taskId, !newStatus).catch(console.error);
-        taskStore.refresh();
-      }
-    );
+    const toggle = buildToggleCommand(task);
+    if (!toggle) return;
+
+    const { command, propagated } = toggle;
 
-    commandManager.execute(command);
+    // Completing a recurring task (or a recurring parent, through the
+    // completion policy) schedules its next occurrence in the same history entry
+    const occurrences = occurrenceSteps([task, ...propagated]);
+    await executeCommand(
+      occurrences.length === 0
+        ? command
+        : new MacroCommand(command.description, [command, ...occurrences])
+    );
   };
 
   // PATTERN COMMAND - Edit task title
   const handleEditTask = async (taskId: string, newTitle: string) => {
     if (!project) return;
 
-    const task = findTaskById(project.tasks, taskId);
+    const task = project.root.findTask(taskId);
     if (!task) return;
 
-    const oldTitle = task.title;
-    const commandManager = taskStore.getCommandManager(projectId);
-    if (!commandManager) return;
-
-    const command = new EditTaskCommand(
-      task,
+    const { onExecute, onUndo } = getCommandCallbacks(EditTaskCommand.TYPE, {
+      taskId,
+      oldTitle: task.title,
       newTitle,
-      () => {
-        // onExecute: update Supabase
-        updateTaskTitle(taskId, newTitle).catch(console.error);
-        taskStore.refresh();
-      },
-      () => {
-        // onUndo: revert in Supabase
-        updateTaskTitle(taskId, oldTitle).catch(console.error);
-        taskStore.refresh();
-      }
-    );
+    });
+    await executeCommand(new EditTaskCommand(task, newTitle, onExecute, onUndo));
+  };
 
-    commandManager.execute(command);
+  // PATTERN COMMAND - Update due date, priority, description and/or tags
+  const handleUpdateMetadata = async (taskId: string, changes: TaskMetadataChanges) => {
+    if (!project) return;
+
+    const task = project.root.findTask(taskId);
+    if (!task) return;
+
+    const { onExecute, onUndo } = getCommandCallbacks(UpdateTaskMetadataCommand.TYPE, {
+      taskId,
+      newValues: changes,
+    });
+    await executeCommand(new UpdateTaskMetadataCommand(task, changes, onExecute, onUndo));
+  };
+
+  // PATTERN COMMAND - Assign project members to a task
+  const handleAssignTask = async (taskId: string, assigneeIds: string[]) => {
+    if (!project) return;
+
+    const task = project.root.findTask(taskId);
+    if (!task) return;
+
+    const { onExecute, onUndo } = getCommandCallbacks(AssignTaskCommand.TYPE, {
+      taskId,
+      oldAssigneeIds: task.assigneeIds ?? [],
+      newAssigneeIds: assigneeIds,
+    });
+    const command = new AssignTaskCommand(task, assigneeIds, onExecute, onUndo);
+    // Same members: nothing to record
+    if (command.isEmpty()) return;
+
+    await executeCommand(command);
+  };
+
+  // PATTERN COMMAND - Block a task until another one is completed
+  const handleAddDependency = async (taskId: string, blockerId: string) => {
+    if (!project) return;
+
+    const task = project.root.findTask(taskId);
+    const blocker = project.root.findTask(blockerId);
+    if (!task || !blocker || task.blockedByIds?.includes(blockerId)) return;
+
+    if (wouldCreateCycle(project.root, taskId, blockerId)) {
+      alert(`"${task.title}" cannot depend on "${blocker.title}": it would create a cycle`);
+      return;
+    }
+
+    const { onExecute, onUndo } = getCommandCallbacks(AddDependencyCommand.TYPE, {
+      taskId,
+      blockerId,
+    });
+    await executeCommand(new AddDependencyCommand(project.root, task, blocker, onExecute, onUndo));
+  };
+
+  // PATTERN COMMAND - Remove a blocker from a task
+  const handleRemoveDependency = async (taskId: string, blockerId: string) => {
+    if (!project) return;
+
+    const task = project.root.findTask(taskId);
+    const blocker = project.root.findTask(blockerId);
+    if (!task || !blocker) return;
+
+    const { onExecute, onUndo } = getCommandCallbacks(RemoveDependencyCommand.TYPE, {
+      taskId,
+      blockerId,
+    });
+    await executeCommand(new RemoveDependencyCommand(task, blocker, onExecute, onUndo));
   };
 
   // PATTERN COMMAND - Delete task
   const handleDeleteTask = async (taskId: string) => {
     if (!project) return;
 
-    const task = findTaskById(project.tasks, taskId);
+    const task = project.root.findTask(taskId);
     if (!task) return;
 
     try {
-      // Delete from Supabase
-      await deleteTask(taskId);
+      const parentGroup = project.root.findParent(taskId) ?? project.root;
 
-      // Reload project from DB to ensure class instances are preserved
-      await loadProject();
+      const { onExecute, onUndo } = getCommandCallbacks(DeleteTaskCommand.TYPE, { taskId });
+      await executeCommand(
+        new DeleteTaskCommand(project.root, taskId, parentGroup, task.title, onExecute, onUndo)
+      );
     } catch (err: any) {
       console.error('Failed to delete task:', err);
       alert('Failed to delete task: ' + err.message);
-      // Reload project to restore state
-      await loadProject();
     }
   };
 
@@ -267,126 +709,334 @@ export default function ProjectPage() {
   const handleAddSubtask = async (parentId: string, title: string) => {
     if (!project) return;
 
-    const parent = findTaskById(project.tasks, parentId);
-    if (!parent || !('addChild' in parent)) return;
+    // A leaf task becomes a group when the command adds its first child
+    const parent = toParentGroup(project.root, parentId);
+    if (!parent) return;
 
     try {
-      // Create subtask in Supabase
-      const newSubtask = await createTask(projectId, title, parentId);
-
-      const commandManager = taskStore.getCommandManager(projectId);
-      if (!commandManager) return;
-
-      const command = new CreateTaskCommand(
-        newSubtask,
-        parent as TaskGroup,
-        () => taskStore.refresh(),
-        () => {
-          deleteTask(newSubtask.id).catch(console.error);
-          taskStore.refresh();
-        }
+      const newSubtask = new Task(crypto.randomUUID(), title);
+      const snapshot = snapshotTaskTree(projectId, parentId, newSubtask);
+
+      const { onExecute, onUndo } = getCommandCallbacks(CreateTaskCommand.TYPE, {
+        taskId: newSubtask.id,
+        task: serializeTree(newSubtask),
+        parentId,
+        snapshot,
+      });
+      await executeCommand(
+        new CreateTaskCommand(newSubtask, parent, snapshot, onExecute, onUndo)
       );
-
-      commandManager.execute(command);
     } catch (err: any) {
       console.error('Failed to add subtask:', err);
       alert('Failed to add subtask: ' + err.message);
     }
   };
 
-  // Helper: Find task by ID recursively
-  const findTaskById = (
-    tasks: TaskComponent[],
-    taskId: string
-  ): TaskComponent | null => {
-    for (const task of tasks) {
-      if (task.id === taskId) return task;
-      if (task.children) {
-        const found = findTaskById(task.children, taskId);
-        if (found) return found;
-      }
+  // PATTERN COMMAND - Deep-copy a task and its subtree right after the original.
+  // The copy drops recurrence rules: the original keeps generating its series alone.
+  const handleDuplicateTask = async (taskId: string) => {
+    if (!project) return;
+
+    const task = project.root.findTask(taskId);
+    const parent = project.root.findParent(taskId);
+    if (!task || !parent) return;
+
+    try {
+      const copy = cloneTree(task, () => crypto.randomUUID(), (node) => {
+        const result: TaskJSON = { ...node };
+        delete result.recurrence;
+        return result;
+      });
+      const next = parent.children[parent.children.indexOf(task) + 1];
+      copy.sortKey = generateKeyBetween(task.sortKey ?? null, next?.sortKey ?? null);
+
+      const snapshot = snapshotTaskTree(
+        projectId,
+        parent === project.root ? null : parent.id,
+        copy
+      );
+
+      const { onExecute, onUndo } = getCommandCallbacks(DuplicateTaskCommand.TYPE, {
+        taskId: copy.id,
+        snapshot,
+      });
+      await executeCommand(
+        new DuplicateTaskCommand(task, copy, parent, snapshot, onExecute, onUndo)
+      );
+    } catch (err: any) {
+      console.error('Failed to duplicate task:', err);
+      alert('Failed to duplicate task: ' + err.message);
     }
-    return null;
   };
 
-  // Helper: Find parent of a task
-  const findParentOfTask = (
-    tasks: TaskComponent[],
-    taskId: string
-  ): TaskComponent | null => {
-    for (const task of tasks) {
-      if (task.children) {
-        if (task.children.some((child) => child.id === taskId)) {
-          return task;
-        }
-        const found = findParentOfTask(task.children, taskId);
-        if (found) return found;
-      }
+  // Move command for a task under any parent, or null if the move is a no-op or
+  // would put the task under itself. toIndex is the position among the new
+  // siblings once the task is removed.
+  const buildMoveCommand = (taskId: string, toParentId: string, toIndex: number) => {
+    if (!project) return null;
+
+    const task = project.root.findTask(taskId);
+    const fromParent = project.root.findParent(taskId);
+    if (!task || !fromParent) return null;
+
+    const fromIndex = fromParent.children.indexOf(task);
+    if (fromParent.id === toParentId && fromIndex === toIndex) return null;
+
+    // Refuse moving a task under itself or one of its descendants
+    if (task.id === toParentId || (task instanceof TaskGroup && task.findTask(toParentId))) {
+      return null;
     }
-    return null;
+
+    // New key between the future neighbours (siblings without the moved task)
+    const siblings = (project.root.findTask(toParentId)?.children ?? []).filter(
+      (child) => child !== task
+    );
+    const toSortKey = generateKeyBetween(
+      siblings[toIndex - 1]?.sortKey ?? null,
+      siblings[toIndex]?.sortKey ?? null
+    );
+
+    const from = { parentId: fromParent.id, index: fromIndex, sortKey: task.sortKey };
+    const to = { parentId: toParentId, index: toIndex, sortKey: toSortKey };
+
+    const { onExecute, onUndo } = getCommandCallbacks(MoveTaskCommand.TYPE, {
+      taskId,
+      fromParentId: from.parentId,
+      fromSortKey: from.sortKey,
+      toParentId: to.parentId,
+      toSortKey: to.sortKey,
+    });
+    return new MoveTaskCommand(project.root, task, from, to, onExecute, onUndo);
+  };
+
+  // PATTERN COMMAND - Move a task (drag & drop, indent / outdent)
+  const handleMoveTask = async (taskId: string, toParentId: string, toIndex: number) => {
+    try {
+      const command = buildMoveCommand(taskId, toParentId, toIndex);
+      if (command) await executeCommand(command);
+    } catch (err: any) {
+      console.error('Failed to move task:', err);
+      alert('Failed to move task: ' + err.message);
+    }
+  };
+
+  // Tab - Demote a task under its previous sibling (appended as last child)
+  const handleIndentTask = async (taskId: string) => {
+    if (!project) return;
+
+    const parent = project.root.findParent(taskId);
+    if (!parent) return;
+
+    const index = parent.children.findIndex((child) => child.id === taskId);
+    if (index <= 0) return;
+
+    const newParent = parent.children[index - 1];
+    await handleMoveTask(taskId, newParent.id, newParent.children?.length ?? 0);
   };
 
-  // Handle drag end - Reorder tasks
+  // Shift+Tab - Promote a task right after its parent
+  const handleOutdentTask = async (taskId: string) => {
+    if (!project) return;
+
+    const parent = project.root.findParent(taskId);
+    if (!parent || parent === project.root) return;
+
+    const grandParent = project.root.findParent(parent.id);
+    if (!grandParent) return;
+
+    await handleMoveTask(taskId, grandParent.id, grandParent.children.indexOf(parent) + 1);
+  };
+
+  // Handle drag end - Each SortableContext is identified by its parent task id,
+  // so dropping over an item of another list moves the task under that parent
   const handleDragEnd = async (event: DragEndEvent) => {
     const { active, over } = event;
 
     if (!over || active.id === over.id || !project) return;
 
-    const oldIndex = project.tasks.findIndex((task) => task.id === active.id);
-    const newIndex = project.tasks.findIndex((task) => task.id === over.id);
+    const target = over.data.current?.sortable;
+    if (!target) return;
 
-    if (oldIndex === -1 || newIndex === -1) return;
+    await handleMoveTask(String(active.id), String(target.containerId), target.index);
+  };
 
-    // Reorder tasks locally
-    const reorderedTasks = arrayMove(project.tasks, oldIndex, newIndex);
+  // Multi-selection - tasks in display order (depth-first), ignoring ids
+  // that no longer exist (deleted or undone since they were selected)
+  const getSelectedTasks = (): TaskComponent[] => {
+    if (!project) return [];
+    return depthFirst(project.root, { includeRoot: false })
+      .toArray()
+      .map((node) => node.task)
+      .filter((task) => selectedIds.includes(task.id));
+  };
 
-    // Update project state optimistically
-    setProject({ ...project, tasks: reorderedTasks });
+  // Selected tasks without a selected ancestor: moving or deleting them
+  // already carries the rest of the selection along
+  const getTopmostSelectedTasks = (): TaskComponent[] => {
+    const selected = getSelectedTasks();
+    return selected.filter(
+      (task) => !selected.some((other) => other !== task && other instanceof TaskGroup && other.findTask(task.id))
+    );
+  };
 
-    // Update positions in Supabase
-    try {
-      const updates = reorderedTasks.map((task, index) => ({
-        id: task.id,
-        position: index,
-      }));
+  const clearSelection = () => {
+    setSelectedIds([]);
+    selectionAnchor.current = null;
+  };
 
-      await reorderTasks(updates);
-      taskStore.refresh();
-    } catch (err: any) {
-      console.error('Failed to reorder tasks:', err);
-      // Revert on error
-      await loadProject();
+  // Ctrl/Cmd-click toggles one task, Shift-click selects every visible task
+  // between the anchor and the clicked one
+  const handleSelectTask = (taskId: string, range: boolean) => {
+    if (!project) return;
+
+    const anchor = selectionAnchor.current;
+    if (range && anchor && project.root.findTask(anchor)) {
+      const order = depthFirst(project.root, { includeRoot: false })
+        .toArray()
+        .map((node) => node.task.id);
+      const [from, to] = [order.indexOf(anchor), order.indexOf(taskId)].sort((a, b) => a - b);
+      const rangeIds = order.slice(from, to + 1);
+      setSelectedIds((ids) => Array.from(new Set([...ids, ...rangeIds])));
+      return;
     }
+
+    selectionAnchor.current = taskId;
+    setSelectedIds((ids) =>
+      ids.includes(taskId) ? ids.filter((id) => id !== taskId) : [...ids, taskId]
+    );
+  };
+
+  const pluralize = (count: number) => `${count} task${count === 1 ? '' : 's'}`;
+
+  // PATTERN COMMAND (Macro) - Complete every selected task in one history entry
+  const handleBulkComplete = async () => {
+    if (!project) return;
+
+    const tasks = getSelectedTasks().filter((task) => !task.completed);
+    if (tasks.length === 0 || !confirmOpenBlockers(tasks)) return;
+
+    // Tasks are toggled one by one: a step is skipped if the completion
+    // policy already completed its task (cascade from a selected parent)
+    const steps: MacroStep[] = tasks.map((task) => () =>
+      task.completed ? null : buildToggleCommand(task)?.command ?? null
+    );
+
+    // Recurring tasks completed by the toggles, directly or through the policy
+    const open = depthFirst(project.root, { includeRoot: false })
+      .toArray()
+      .map((node) => node.task)
+      .filter((task) => !task.completed);
+
+    const completed = await executeCommand(
+      new MacroCommand(`Complete ${pluralize(tasks.length)}`, [
+        ...steps,
+        ...occurrenceSteps(open),
+      ])
+    );
+    if (completed) clearSelection();
   };
 
-  // Handle reordering subtasks
-  const handleReorderSubtasks = async (parentId: string, reorderedChildren: TaskComponent[]) => {
+  // PATTERN COMMAND (Macro) - Delete the selected tasks in one history entry
+  const handleBulkDelete = async () => {
     if (!project) return;
 
+    const tasks = getTopmostSelectedTasks();
+    if (tasks.length === 0) return;
+    if (!confirm(`Delete ${pluralize(tasks.length)} and their subtasks?`)) return;
+
     try {
-      // Update positions in Supabase
-      const updates = reorderedChildren.map((child, index) => ({
-        id: child.id,
-        position: index,
-      }));
+      const steps: MacroStep[] = tasks.map((task) => () => {
+        const parent = project.root.findParent(task.id);
+        if (!parent) return null;
+
+        const { onExecute, onUndo } = getCommandCallbacks(DeleteTaskCommand.TYPE, {
+          taskId: task.id,
+        });
+        return new DeleteTaskCommand(
+          project.root,
+          task.id,
+          parent,
+          task.title,
+          onExecute,
+          onUndo
+        );
+      });
+
+      const deleted = await executeCommand(
+        new MacroCommand(`Delete ${pluralize(tasks.length)}`, steps)
+      );
+      if (deleted) clearSelection();
+    } catch (err: any) {
+      console.error('Failed to delete tasks:', err);
+      alert('Failed to delete tasks: ' + err.message);
+    }
+  };
+
+  // PATTERN COMMAND (Macro) - Move the selected tasks to the end of a parent,
+  // keeping their display order
+  const handleBulkMove = async (parentId: string) => {
+    if (!project) return;
 
-      await reorderTasks(updates);
+    const parent = project.root.findTask(parentId);
+    const tasks = getTopmostSelectedTasks();
+    if (!parent || tasks.length === 0) return;
 
-      // Reload project from DB to ensure class instances are preserved
-      await loadProject();
+    // Each move is computed after the previous one, against the updated siblings
+    const steps: MacroStep[] = tasks.map((task) => () => {
+      const siblings = project.root.findTask(parentId)?.children ?? [];
+      const toIndex = siblings.filter((child) => child !== task).length;
+      return buildMoveCommand(task.id, parentId, toIndex);
+    });
+
+    const description =
+      parent === project.root
+        ? `Move ${pluralize(tasks.length)} to the top level`
+        : `Move ${pluralize(tasks.length)} under "${parent.title}"`;
+
+    try {
+      const moved = await executeCommand(new MacroCommand(description, steps));
+      if (moved) clearSelection();
     } catch (err: any) {
-      console.error('Failed to reorder subtasks:', err);
-      // Reload project to restore state
-      await loadProject();
+      console.error('Failed to move tasks:', err);
+      alert('Failed to move tasks: ' + err.message);
     }
   };
 
+  // PATTERN COMMAND (Macro) - Add tags to every selected task
+  const handleBulkTag = async (tags: string[]) => {
+    const tasks = getSelectedTasks().filter((task) =>
+      tags.some((tag) => !(task.tags ?? []).includes(tag))
+    );
+    if (tasks.length === 0) return;
+
+    const steps: MacroStep[] = tasks.map((task) => () => {
+      const current = task.tags ?? [];
+      const added = tags.filter((tag) => !current.includes(tag));
+      if (added.length === 0) return null;
+
+      const changes: TaskMetadataChanges = { tags: [...current, ...added] };
+      const { onExecute, onUndo } = getCommandCallbacks(UpdateTaskMetadataCommand.TYPE, {
+        taskId: task.id,
+        newValues: changes,
+      });
+      return new UpdateTaskMetadataCommand(task, changes, onExecute, onUndo);
+    });
+
+    await executeCommand(
+      new MacroCommand(
+        `Tag ${pluralize(tasks.length)} with ${tags.map((tag) => `#${tag}`).join(', ')}`,
+        steps
+      )
+    );
+  };
+
   // Handle project name edit
   const handleEditProjectName = async () => {
     if (!editedProjectName.trim() || !project) return;
 
     try {
       await updateProject(projectId, { name: editedProjectName.trim() });
+      project.root.title = editedProjectName.trim();
       setProject({ ...project, name: editedProjectName.trim() });
       setIsEditingProjectName(false);
     } catch (err: any) {
@@ -395,6 +1045,37 @@ export default function ProjectPage() {
     }
   };
 
+  // Completion policy applies to the next toggles (not undoable)
+  const handleChangeCompletionPolicy = async (completionPolicy: CompletionPolicy) => {
+    if (!project) return;
+
+    try {
+      await updateProject(projectId, { completionPolicy });
+      const storeProject = taskStore.getProject(projectId);
+      if (storeProject) storeProject.completionPolicy = completionPolicy;
+      setProject({ ...project, completionPolicy });
+    } catch (err: any) {
+      console.error('Failed to update completion policy:', err);
+      alert('Failed to update completion policy: ' + err.message);
+    }
+  };
+
+  // History budget: lowering it drops the oldest commands right away (not undoable)
+  const handleChangeHistoryLimit = async (historyLimit: number) => {
+    if (!project) return;
+
+    try {
+      await updateProject(projectId, { historyLimit });
+      const storeProject = taskStore.getProject(projectId);
+      if (storeProject) storeProject.historyLimit = historyLimit;
+      taskStore.getCommandManager(projectId)?.setMaxHistorySize(historyLimit);
+      setProject({ ...project, historyLimit });
+    } catch (err: any) {
+      console.error('Failed to update history limit:', err);
+      alert('Failed to update history limit: ' + err.message);
+    }
+  };
+
   const startEditingProjectName = () => {
     if (!project) return;
     setEditedProjectName(project.name);
@@ -434,6 +1115,37 @@ export default function ProjectPage() {
     return null;
   }
 
+  // Same role rules as the permission middleware (canPerformAction): editors
+  // change tasks, admins and the owner also change the project settings
+  const canEditTasks = canPerformAction(currentUserRole, 'editor');
+  const canManageProject = canPerformAction(currentUserRole, 'admin');
+
+  // Every other task that can block the open one without closing a cycle
+  const detailTask = detailTaskId ? project.root.findTask(detailTaskId) : null;
+  const blockerOptions = detailTask
+    ? depthFirst(project.root, { includeRoot: false })
+        .toArray()
+        .map((node) => node.task)
+        .filter((task) => !wouldCreateCycle(project.root, detailTask.id, task.id))
+    : [];
+
+  // Bulk move targets: the top level, or any task outside the selected subtrees
+  const selectedTasks = getSelectedTasks();
+  const moveTargets: MoveTarget[] = [
+    { id: project.root.id, label: 'Top level' },
+    ...depthFirst(project.root, { includeRoot: false })
+      .toArray()
+      .filter(({ task }) => !selectedTasks.some(
+            (selected) =>
+              selected.id === task.id ||
+              (selected instanceof TaskGroup && selected.findTask(task.id))
+          ))
+      .map(({ task, depth }) => ({
+        id: task.id,
+        label: `${'\u00a0\u00a0'.repeat(depth - 1)}${task.title}`,
+      })),
+  ];
+
   return (
     <div className="min-h-screen bg-background transition-colors">
       {/* Header */}
@@ -483,7 +1195,7 @@ export default function ProjectPage() {
                     <h1 className="text-3xl font-bold text-foreground">
                       {project.name}
                     </h1>
-                    {(currentUserRole === 'owner' || currentUserRole === 'admin') && (
+                    {canManageProject && (
                       <Button
                         onClick={startEditingProjectName}
                         variant="ghost"
@@ -503,11 +1215,27 @@ export default function ProjectPage() {
                 )}
               </div>
             </div>
-            <ThemeToggle />
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setIsSavingTemplate(true)}
+                className="rounded-xl"
+              >
+                <LayoutTemplate className="w-4 h-4 mr-2" />
+                Save as template
+              </Button>
+              <ThemeToggle />
+            </div>
           </div>
         </div>
       </header>
 
+      <SaveTemplateDialog
+        project={project}
+        open={isSavingTemplate}
+        onClose={() => setIsSavingTemplate(false)}
+      />
+
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -518,13 +1246,53 @@ export default function ProjectPage() {
                 <h2 className="text-2xl font-semibold text-foreground">
                   Tasks
                 </h2>
-                <Button
-                  onClick={() => setIsAddingTask(true)}
-                  className="flex items-center gap-2 rounded-xl"
-                >
-                  <Plus className="w-5 h-5" />
-                  <span className="font-medium">Add Task</span>
-                </Button>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={project.completionPolicy}
+                    onValueChange={(value) =>
+                      handleChangeCompletionPolicy(value as CompletionPolicy)
+                    }
+                    disabled={!canManageProject}
+                  >
+                    <SelectTrigger className="w-52 rounded-xl" title="Completion policy">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COMPLETION_POLICIES.map((policy) => (
+                        <SelectItem key={policy} value={policy}>
+                          {COMPLETION_POLICY_LABELS[policy]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={String(project.historyLimit)}
+                    onValueChange={(value) => handleChangeHistoryLimit(Number(value))}
+                    disabled={!canManageProject}
+                  >
+                    <SelectTrigger className="w-40 rounded-xl" title="Undo history size">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from(new Set([...HISTORY_LIMITS, project.historyLimit]))
+                        .sort((a, b) => a - b)
+                        .map((limit) => (
+                          <SelectItem key={limit} value={String(limit)}>
+                            {limit} undo steps
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  {canEditTasks && (
+                    <Button
+                      onClick={() => setIsAddingTask(true)}
+                      className="flex items-center gap-2 rounded-xl"
+                    >
+                      <Plus className="w-5 h-5" />
+                      <span className="font-medium">Add Task</span>
+                    </Button>
+                  )}
+                </div>
               </div>
 
               {/* Add Task Form */}
@@ -566,6 +1334,19 @@ export default function ProjectPage() {
                 </div>
               )}
 
+              {/* Bulk actions on the Shift/Ctrl-click selection */}
+              {selectedTasks.length > 0 && (
+                <BulkActionBar
+                  count={selectedTasks.length}
+                  moveTargets={moveTargets}
+                  onComplete={handleBulkComplete}
+                  onDelete={handleBulkDelete}
+                  onMove={handleBulkMove}
+                  onTag={handleBulkTag}
+                  onClear={clearSelection}
+                />
+              )}
+
               {/* Tasks List */}
               <div className="space-y-2">
                 {project.tasks.length === 0 ? (
@@ -581,6 +1362,7 @@ export default function ProjectPage() {
                     onDragEnd={handleDragEnd}
                   >
                     <SortableContext
+                      id={project.root.id}
                       items={project.tasks.map((task) => task.id)}
                       strategy={verticalListSortingStrategy}
                     >
@@ -592,7 +1374,13 @@ export default function ProjectPage() {
                           onDelete={handleDeleteTask}
                           onEdit={handleEditTask}
                           onAddSubtask={handleAddSubtask}
-                          onReorderSubtasks={handleReorderSubtasks}
+                          onDuplicate={handleDuplicateTask}
+                          onIndent={handleIndentTask}
+                          onOutdent={handleOutdentTask}
+                          onOpenDetails={setDetailTaskId}
+                          getOpenBlockers={(task) => getOpenBlockers(project.root, task)}
+                          isSelected={(id) => selectedIds.includes(id)}
+                          onSelect={handleSelectTask}
                         />
                       ))}
                     </SortableContext>
@@ -600,6 +1388,18 @@ export default function ProjectPage() {
                 )}
               </div>
             </Card>
+
+            {/* Task Details */}
+            <TaskDetailPanel
+              task={detailTask}
+              members={assignableMembers}
+              onClose={() => setDetailTaskId(null)}
+              onSave={handleUpdateMetadata}
+              onAssign={handleAssignTask}
+              blockerOptions={blockerOptions}
+              onAddDependency={handleAddDependency}
+              onRemoveDependency={handleRemoveDependency}
+            />
           </div>
 
           {/* Sidebar - Members & History */}
@@ -611,7 +1411,7 @@ export default function ProjectPage() {
             />
 
             {/* History Section */}
-            <History projectId={projectId} />
+            <History projectId={projectId} currentUserRole={currentUserRole} />
           </div>
         </div>
       </main>
@@ -0,0 +1,120 @@
+/**
+ * BulkActionBar - Actions on the tasks picked with Shift/Ctrl-click.
+ * Each action is recorded as a single MacroCommand, so one undo reverts it.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { CheckCheck, Trash2, Tag, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { parseTags } from '@/components/TaskDetailPanel';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export interface MoveTarget {
+  id: string;
+  label: string;
+}
+
+interface BulkActionBarProps {
+  count: number;
+  moveTargets: MoveTarget[];
+  onComplete: () => void;
+  onDelete: () => void;
+  onMove: (parentId: string) => void;
+  onTag: (tags: string[]) => void;
+  onClear: () => void;
+}
+
+export function BulkActionBar({
+  count,
+  moveTargets,
+  onComplete,
+  onDelete,
+  onMove,
+  onTag,
+  onClear,
+}: BulkActionBarProps) {
+  const [tags, setTags] = useState('');
+
+  const handleTag = () => {
+    const parsed = parseTags(tags);
+    if (parsed.length === 0) return;
+    onTag(parsed);
+    setTags('');
+  };
+
+  return (
+    <div className="mb-4 p-3 bg-secondary/50 rounded-xl border border-border flex flex-wrap items-center gap-2">
+      <span className="text-sm font-medium text-foreground mr-2">{count} selected</span>
+
+      <Button variant="outline" size="sm" onClick={onComplete} className="rounded-xl">
+        <CheckCheck className="w-4 h-4 mr-1" />
+        Complete
+      </Button>
+
+      {/* Picking a parent moves the tasks right away (appended as last children) */}
+      <Select value="" onValueChange={onMove}>
+        <SelectTrigger className="w-44 h-9 rounded-xl">
+          <SelectValue placeholder="Move to..." />
+        </SelectTrigger>
+        <SelectContent>
+          {moveTargets.map((target) => (
+            <SelectItem key={target.id} value={target.id}>
+              {target.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleTag();
+          }}
+          placeholder="tag, other"
+          className="w-32 h-9 px-3 border border-border bg-background text-foreground text-sm rounded-xl focus:outline-none focus:ring-2 focus:ring-ring placeholder:text-muted-foreground"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleTag}
+          disabled={parseTags(tags).length === 0}
+          className="rounded-xl"
+        >
+          <Tag className="w-4 h-4 mr-1" />
+          Tag
+        </Button>
+      </div>
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={onDelete}
+        className="rounded-xl hover:text-destructive"
+      >
+        <Trash2 className="w-4 h-4 mr-1" />
+        Delete
+      </Button>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onClear}
+        className="h-8 w-8 ml-auto"
+        title="Clear selection (Esc)"
+      >
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
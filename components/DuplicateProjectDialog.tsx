@@ -0,0 +1,144 @@
+/**
+ * DuplicateProjectDialog - Copy a project with its whole task tree.
+ * The copy is made server-side in one transaction (duplicate_project RPC).
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Project } from '@/lib/types';
+import { duplicateProject } from '@/lib/supabase/projects';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface DuplicateProjectDialogProps {
+  project: Project | null;
+  onClose: () => void;
+  onDuplicated: (copy: Project) => void;
+}
+
+export function DuplicateProjectDialog({
+  project,
+  onClose,
+  onDuplicated,
+}: DuplicateProjectDialogProps) {
+  const [name, setName] = useState('');
+  const [keepCompletion, setKeepCompletion] = useState(false);
+  const [copyMembers, setCopyMembers] = useState(false);
+  const [duplicating, setDuplicating] = useState(false);
+
+  // Reset the form whenever another project is picked
+  useEffect(() => {
+    if (!project) return;
+    setName(`${project.name} (copy)`);
+    setKeepCompletion(false);
+    setCopyMembers(false);
+  }, [project]);
+
+  const handleDuplicate = async () => {
+    if (!project || !name.trim()) return;
+
+    try {
+      setDuplicating(true);
+      const copy = await duplicateProject(project.id, {
+        name: name.trim(),
+        keepCompletion,
+        copyMembers,
+      });
+      onDuplicated(copy);
+      onClose();
+    } catch (err: any) {
+      console.error('Failed to duplicate project:', err);
+      alert('Failed to duplicate project: ' + err.message);
+    } finally {
+      setDuplicating(false);
+    }
+  };
+
+  return (
+    <Dialog open={project !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>Duplicate Project</DialogTitle>
+          <DialogDescription>
+            Copy &ldquo;{project?.name}&rdquo; with all of its tasks.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-name">Name</Label>
+            <input
+              id="duplicate-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleDuplicate();
+              }}
+              className="w-full px-4 py-2 border border-border bg-background rounded-xl focus:outline-none focus:ring-2 focus:ring-ring text-foreground"
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Completion</Label>
+            <label className="flex items-center gap-2 text-sm text-foreground">
+              <input
+                type="radio"
+                name="duplicate-completion"
+                checked={!keepCompletion}
+                onChange={() => setKeepCompletion(false)}
+              />
+              Reset all completion
+            </label>
+            <label className="flex items-center gap-2 text-sm text-foreground">
+              <input
+                type="radio"
+                name="duplicate-completion"
+                checked={keepCompletion}
+                onChange={() => setKeepCompletion(true)}
+              />
+              Keep completion
+            </label>
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={copyMembers}
+              onChange={(e) => setCopyMembers(e.target.checked)}
+              className="mt-1"
+            />
+            <span>
+              Copy members
+              <span className="block text-xs text-muted-foreground">
+                Otherwise the copy is private and only your own assignments are kept.
+              </span>
+            </span>
+          </label>
+
+          <div className="flex gap-3 justify-end">
+            <Button variant="outline" onClick={onClose} className="rounded-xl">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleDuplicate}
+              disabled={!name.trim() || duplicating}
+              className="rounded-xl"
+            >
+              Duplicate
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
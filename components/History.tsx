@@ -2,25 +2,61 @@
  * Composant History - Affiche l'historique des commandes avec Undo/Redo
  * Utilise le pattern COMMAND pour gérer les actions
  * Utilise le pattern OBSERVER pour se mettre à jour automatiquement
+ *
+ * L'historique est un arbre : les branches abandonnées après un undo restent
+ * affichées (décalées à droite). Un clic sur une entrée montre ce qui serait
+ * annulé / rejoué pour revenir à cet état, puis y ramène le projet d'un coup.
  */
 
 'use client';
 
 import { useObserver } from '@/patterns/observer';
 import { taskStore } from '@/patterns/observer/TaskStore';
-import { Undo2, Redo2, History as HistoryIcon } from 'lucide-react';
+import {
+  Undo2,
+  Redo2,
+  History as HistoryIcon,
+  Loader,
+  AlertTriangle,
+  X,
+  GitBranch,
+  Rewind,
+  FastForward,
+  ChevronsUp,
+} from 'lucide-react';
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import type { HistoryEntry } from '@/patterns/command';
+import { canPerformAction, type MemberRole } from '@/lib/supabase/members';
+
+// Steps offered to travel back in time from the current state
+const REWIND_STEPS = [
+  { label: '1 min', ms: 60 * 1000 },
+  { label: '10 min', ms: 10 * 60 * 1000 },
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+];
+
+// Entries shown at first, and added by each "Show older" click
+const HISTORY_PAGE_SIZE = 10;
 
 interface HistoryProps {
   projectId: string;
+  currentUserRole: MemberRole | 'owner' | null;
+  pageSize?: number;
 }
 
-export function History({ projectId }: HistoryProps) {
+export function History({
+  projectId,
+  currentUserRole,
+  pageSize = HISTORY_PAGE_SIZE,
+}: HistoryProps) {
   const [, forceUpdate] = useState(0);
+  const [visibleCount, setVisibleCount] = useState(pageSize);
+  // Entry picked for a jump (null: the initial state), shown as a preview first
+  const [jumpTarget, setJumpTarget] = useState<{ id: number | null; label: string } | null>(null);
 
-  // PATTERN OBSERVER - Update when the historic change 
+  // PATTERN OBSERVER - Update when the historic change
   useObserver(taskStore, () => {
     forceUpdate((n) => n + 1);
   });
@@ -38,27 +74,50 @@ export function History({ projectId }: HistoryProps) {
     );
   }
 
-  // Get full history (saved + current session)
-  const fullHistory: Array<{
-    description: string;
-    timestamp: Date;
-    canUndo: boolean;
-    index: number;
-  }> = commandManager.getFullHistoryForDisplay(10);
-  const currentIndex = commandManager.getCurrentIndex();
-  const canUndo = commandManager.canUndo();
-  const canRedo = commandManager.canRedo();
-
-  const handleUndo = () => {
-    if (commandManager.undo()) {
-      taskStore.refresh();
-    }
+  // Whole stored history (saved + every branch of the undo tree), newest last
+  const fullHistory: HistoryEntry[] = commandManager.getFullHistoryForDisplay();
+  const visibleHistory = fullHistory.slice(-visibleCount);
+  const hiddenCount = fullHistory.length - visibleHistory.length;
+  const branchCount = fullHistory.filter((item) => item.state === 'branch').length;
+  const currentEntry = fullHistory.find((item) => item.state === 'current');
+  const status = commandManager.getStatus();
+  const isPending = status.state === 'pending';
+  // Viewers can read the history but not move through it
+  const canTravel = canPerformAction(currentUserRole, 'editor') && !isPending;
+  const canUndo = canTravel && commandManager.canUndo();
+  const canRedo = canTravel && commandManager.canRedo();
+
+  // "Initial state" row, right before the first undoable entry once it is visible
+  const firstUndoable = fullHistory.findIndex((item) => item.id !== null);
+  const showInitialState = firstUndoable >= hiddenCount;
+
+  // Preview of the picked jump (null once the entry has been pruned)
+  const plan = jumpTarget ? commandManager.planGoTo(jumpTarget.id) : null;
+
+  // The command manager notifies the store, which re-renders this component
+  const handleUndo = async () => {
+    await commandManager.undo();
+  };
+
+  const handleRedo = async () => {
+    await commandManager.redo();
+  };
+
+  // Every intermediate undo / redo runs as one queued operation
+  const handleJump = async () => {
+    if (!jumpTarget) return;
+    setJumpTarget(null);
+    await commandManager.goTo(jumpTarget.id);
+  };
+
+  // State of the project `ms` before the current state was reached
+  const handleRewind = async (ms: number) => {
+    const from = currentEntry?.timestamp ?? new Date();
+    await commandManager.goToTime(new Date(from.getTime() - ms));
   };
 
-  const handleRedo = () => {
-    if (commandManager.redo()) {
-      taskStore.refresh();
-    }
+  const handleLatest = async () => {
+    await commandManager.goToTime(new Date());
   };
 
   return (
@@ -96,60 +155,223 @@ export function History({ projectId }: HistoryProps) {
         </div>
       </div>
 
+      {/* Time Travel */}
+      <div className="mb-4 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+        <Rewind className="w-3 h-3 mr-1" />
+        <span className="mr-1">Go back</span>
+        {REWIND_STEPS.map((step) => (
+          <Button
+            key={step.label}
+            onClick={() => handleRewind(step.ms)}
+            disabled={!canUndo}
+            variant="outline"
+            size="sm"
+            className="h-6 px-2 text-xs rounded-lg"
+          >
+            {step.label}
+          </Button>
+        ))}
+        <Button
+          onClick={handleLatest}
+          disabled={!canTravel}
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs rounded-lg ml-auto"
+          title="Go to the most recent change, on any branch"
+        >
+          <FastForward className="w-3 h-3 mr-1" />
+          Latest
+        </Button>
+      </div>
+
+      {/* Pending / Failed Status */}
+      {isPending && (
+        <div className="mb-4 p-3 rounded-xl border border-border bg-secondary/30 flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader className="w-4 h-4 animate-spin" />
+          <span>
+            {status.progress
+              ? `${status.action === 'undo' ? 'Undoing' : 'Redoing'} ${status.progress.step} of ${status.progress.total}: ${status.description}`
+              : `Saving: ${status.description}`}
+          </span>
+        </div>
+      )}
+      {status.state === 'failed' && (
+        <div className="mb-4 p-3 rounded-xl border border-destructive bg-destructive/10 flex items-start gap-2 text-sm">
+          <AlertTriangle className="w-4 h-4 text-destructive flex-shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <p className="text-foreground">
+              {status.rejected
+                ? `Could not ${status.action} "${status.description}" — not allowed`
+                : `Could not ${status.action} "${status.description}" — change reverted`}
+            </p>
+            {status.progress && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Stopped at step {status.progress.step} of {status.progress.total}
+              </p>
+            )}
+            {status.error && (
+              <p className="text-xs text-muted-foreground mt-1">{status.error}</p>
+            )}
+          </div>
+          <Button
+            onClick={() => commandManager.dismissError()}
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      {/* Jump Preview */}
+      {jumpTarget && plan && (
+        <div className="mb-4 p-3 rounded-xl border border-primary bg-primary/5 text-sm">
+          <p className="text-foreground font-medium mb-2">
+            Jump to &quot;{jumpTarget.label}&quot;
+          </p>
+          {plan.undo.length > 0 && (
+            <div className="mb-2">
+              <p className="text-xs text-muted-foreground mb-1">
+                Undo {plan.undo.length} change{plan.undo.length === 1 ? '' : 's'}
+              </p>
+              <ul className="text-xs text-foreground space-y-0.5">
+                {plan.undo.map((command, i) => (
+                  <li key={i} className="flex items-center gap-1">
+                    <Undo2 className="w-3 h-3 text-muted-foreground" />
+                    {command.description}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {plan.redo.length > 0 && (
+            <div className="mb-2">
+              <p className="text-xs text-muted-foreground mb-1">
+                Redo {plan.redo.length} change{plan.redo.length === 1 ? '' : 's'}
+              </p>
+              <ul className="text-xs text-foreground space-y-0.5">
+                {plan.redo.map((command, i) => (
+                  <li key={i} className="flex items-center gap-1">
+                    <Redo2 className="w-3 h-3 text-muted-foreground" />
+                    {command.description}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div className="flex gap-2 justify-end">
+            <Button
+              onClick={() => setJumpTarget(null)}
+              variant="outline"
+              size="sm"
+              className="rounded-xl"
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleJump} disabled={!canTravel} size="sm" className="rounded-xl">
+              Jump
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* History List */}
       <div className="space-y-2 max-h-96 overflow-y-auto">
+        {hiddenCount > 0 && (
+          <Button
+            onClick={() => setVisibleCount((count) => count + pageSize)}
+            variant="ghost"
+            size="sm"
+            className="w-full rounded-xl text-xs text-muted-foreground"
+          >
+            <ChevronsUp className="w-4 h-4 mr-1" />
+            Show older ({hiddenCount} more)
+          </Button>
+        )}
+
         {fullHistory.length === 0 ? (
           <div className="text-center text-muted-foreground text-sm py-8">
             No actions performed
           </div>
         ) : (
-          fullHistory.map((item, displayIndex) => {
-            const isCurrent = item.canUndo && item.index === currentIndex;
-            const isFuture = item.canUndo && item.index > currentIndex;
-            const isSaved = !item.canUndo;
+          visibleHistory.map((item, displayIndex) => {
+            const isCurrent = item.state === 'current';
+            const isFuture = item.state === 'redo';
+            const isSaved = item.state === 'saved';
+            const isBranch = item.state === 'branch';
+            const canJump = item.id !== null && !isCurrent && canTravel;
 
             return (
-              <div
-                key={displayIndex}
-                className={`p-3 rounded-xl border transition-colors ${
-                  isCurrent
-                    ? 'bg-primary/10 border-primary'
-                    : isFuture
-                    ? 'bg-secondary/30 border-border opacity-50'
-                    : isSaved
-                    ? 'bg-secondary/20 border-border'
-                    : 'bg-card border-border'
-                }`}
-              >
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <span
-                      className={`text-sm ${
-                        isFuture ? 'text-muted-foreground' :
-                        isSaved ? 'text-muted-foreground' :
-                        'text-foreground'
-                      }`}
-                    >
-                      {item.description}
-                    </span>
-                    {isSaved && (
-                      <span className="text-xs px-2 py-0.5 bg-secondary text-muted-foreground rounded">
-                        Saved
+              <div key={item.id ?? `saved-${displayIndex}`}>
+                {showInitialState && hiddenCount + displayIndex === firstUndoable && (
+                  <button
+                    onClick={() => setJumpTarget({ id: null, label: 'Initial state' })}
+                    disabled={!canUndo}
+                    className="w-full mb-2 px-3 py-1.5 rounded-xl border border-dashed border-border text-left text-xs text-muted-foreground enabled:hover:border-primary disabled:cursor-default"
+                    title="Undo every change below"
+                  >
+                    Initial state
+                  </button>
+                )}
+                <div
+                  style={{ marginLeft: `${item.lane * 1.25}rem` }}
+                  onClick={
+                    canJump
+                      ? () => setJumpTarget({ id: item.id, label: item.description })
+                      : undefined
+                  }
+                  title={
+                    canJump ? (isBranch ? 'Switch to this branch' : 'Jump to this point') : undefined
+                  }
+                  className={`p-3 rounded-xl border transition-colors ${
+                    canJump ? 'cursor-pointer hover:border-primary' : ''
+                  } ${
+                    item.id !== null && jumpTarget?.id === item.id
+                      ? 'ring-2 ring-primary/40'
+                      : ''
+                  } ${
+                    isCurrent
+                      ? 'bg-primary/10 border-primary'
+                      : isFuture
+                      ? 'bg-secondary/30 border-border opacity-50 hover:opacity-100'
+                      : isBranch
+                      ? 'bg-card border-dashed border-border opacity-60 hover:opacity-100'
+                      : isSaved
+                      ? 'bg-secondary/20 border-border'
+                      : 'bg-card border-border'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      {item.lane > 0 && <GitBranch className="w-3 h-3 text-muted-foreground" />}
+                      <span
+                        className={`text-sm ${
+                          isFuture || isSaved || isBranch ? 'text-muted-foreground' : 'text-foreground'
+                        }`}
+                      >
+                        {item.description}
                       </span>
-                    )}
+                      {isSaved && (
+                        <span className="text-xs px-2 py-0.5 bg-secondary text-muted-foreground rounded">
+                          Saved
+                        </span>
+                      )}
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {item.timestamp.toLocaleTimeString('en-US', {
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                    </span>
                   </div>
-                  <span className="text-xs text-muted-foreground">
-                    {item.timestamp.toLocaleTimeString('en-US', {
-                      hour: '2-digit',
-                      minute: '2-digit',
-                    })}
-                  </span>
+                  {isCurrent && (
+                    <div className="text-xs text-primary font-medium mt-1">
+                      ← Current position
+                    </div>
+                  )}
                 </div>
-                {isCurrent && (
-                  <div className="text-xs text-primary font-medium mt-1">
-                    ← Current position
-                  </div>
-                )}
               </div>
             );
           })
@@ -157,7 +379,8 @@ export function History({ projectId }: HistoryProps) {
       </div>
 
       <div className="mt-4 text-xs text-muted-foreground text-center">
-        {fullHistory.length} actions • Use Ctrl+Z / Ctrl+Y for current session
+        {fullHistory.length} actions
+        {branchCount > 0 && ` • ${branchCount} on other branches`} • Click an entry to jump to it
       </div>
     </Card>
   );
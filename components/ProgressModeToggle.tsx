@@ -0,0 +1,40 @@
+/**
+ * ProgressModeToggle - Switch progress between task count and effort estimates
+ */
+
+'use client';
+
+import type { ProgressMode } from '@/patterns/composite/Progress';
+
+interface ProgressModeToggleProps {
+  mode: ProgressMode;
+  onChange: (mode: ProgressMode) => void;
+}
+
+const MODES: Array<{ value: ProgressMode; label: string; title: string }> = [
+  { value: 'count', label: 'Tasks', title: 'Every task counts the same' },
+  { value: 'effort', label: 'Effort', title: 'Tasks are weighted by their estimate' },
+];
+
+export function ProgressModeToggle({ mode, onChange }: ProgressModeToggleProps) {
+  return (
+    <div className="inline-flex rounded-xl border border-border p-0.5 text-xs" role="group">
+      {MODES.map(({ value, label, title }) => (
+        <button
+          key={value}
+          type="button"
+          onClick={() => onChange(value)}
+          aria-pressed={mode === value}
+          title={title}
+          className={`px-3 py-1 rounded-lg transition-colors ${
+            mode === value
+              ? 'bg-primary text-primary-foreground'
+              : 'text-muted-foreground hover:text-foreground'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
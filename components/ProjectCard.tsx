@@ -5,25 +5,23 @@
 'use client';
 
 import { Project } from '@/lib/types';
+import { computeProgress, type ProgressMode } from '@/patterns/composite/Progress';
 import { Folder, Trash2, ChevronRight } from 'lucide-react';
 import Link from 'next/link';
 
 interface ProjectCardProps {
   project: Project;
   onDelete: (projectId: string) => void;
+  progressMode?: ProgressMode;
 }
 
-export function ProjectCard({ project, onDelete }: ProjectCardProps) {
+export function ProjectCard({ project, onDelete, progressMode = 'count' }: ProjectCardProps) {
   // Calculate statistic (pattern COMPOSITE)
   const totalTasks = project.tasks.reduce(
     (sum, task) => sum + task.getTaskCount(),
     0
   );
-  const completedTasks = project.tasks.reduce(
-    (sum, task) => sum + task.getCompletedCount(),
-    0
-  );
-  const percentage = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0;
+  const progress = computeProgress(project.tasks, progressMode);
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 hover:shadow-lg transition-all">
@@ -62,13 +60,14 @@ export function ProjectCard({ project, onDelete }: ProjectCardProps) {
           <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-2">
             <span>Progress</span>
             <span>
-              {completedTasks} / {totalTasks}
+              {progress.completed} / {progress.total}
+              {progressMode === 'effort' && ' effort'}
             </span>
           </div>
           <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2 overflow-hidden">
             <div
               className="bg-gradient-to-r from-primary to-success h-full transition-all duration-500"
-              style={{ width: `${percentage}%` }}
+              style={{ width: `${progress.percentage}%` }}
             />
           </div>
         </div>
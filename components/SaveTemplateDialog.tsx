@@ -0,0 +1,129 @@
+/**
+ * SaveTemplateDialog - Save the project's task tree as a reusable template.
+ * Completion, due dates and assignees are dropped; {{name}} placeholders in
+ * titles become variables filled in when a project is created from the template.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Project, TemplateVisibility } from '@/lib/types';
+import { saveProjectAsTemplate } from '@/lib/supabase/templates';
+import { extractTemplateVariables } from '@/patterns/composite/TaskTemplate';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface SaveTemplateDialogProps {
+  project: Project;
+  open: boolean;
+  onClose: () => void;
+}
+
+export function SaveTemplateDialog({ project, open, onClose }: SaveTemplateDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [visibility, setVisibility] = useState<TemplateVisibility>('private');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(project.name);
+    setDescription(project.description ?? '');
+    setVisibility('private');
+  }, [open, project]);
+
+  const variables = extractTemplateVariables(project.root);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    try {
+      setSaving(true);
+      await saveProjectAsTemplate(project, name.trim(), description.trim() || undefined, visibility);
+      onClose();
+    } catch (err: any) {
+      console.error('Failed to save template:', err);
+      alert('Failed to save template: ' + err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Reuse this task tree for new projects. Completion, due dates and assignees are not
+            saved. Use placeholders such as {'{{version}}'} in task titles.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <input
+              id="template-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Release checklist"
+              className="w-full px-3 py-2 border border-border bg-background text-foreground rounded-xl focus:outline-none focus:ring-2 focus:ring-ring placeholder:text-muted-foreground"
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <input
+              id="template-description"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+              className="w-full px-3 py-2 border border-border bg-background text-foreground rounded-xl focus:outline-none focus:ring-2 focus:ring-ring placeholder:text-muted-foreground"
+            />
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={visibility === 'shared'}
+              onChange={(e) => setVisibility(e.target.checked ? 'shared' : 'private')}
+              className="mt-1"
+            />
+            <span>
+              Share with your collaborators
+              <span className="block text-xs text-muted-foreground">
+                Everyone you share a project with can use it, even once this project is
+                deleted. Otherwise only you can use this template.
+              </span>
+            </span>
+          </label>
+
+          <p className="text-sm text-muted-foreground">
+            {project.root.getTaskCount() - 1} tasks
+            {variables.length > 0 && ` · Variables: ${variables.join(', ')}`}
+          </p>
+
+          <div className="flex gap-3 justify-end">
+            <Button variant="outline" onClick={onClose} className="rounded-xl">
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim() || saving} className="rounded-xl">
+              Save Template
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
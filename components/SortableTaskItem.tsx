@@ -1,6 +1,11 @@
 /**
  * SortableTaskItem - Wrapper for TaskItem with drag and drop functionality
- * Supports recursive drag and drop for subtasks
+ * Each level is a SortableContext (id = parent task id) inside the page's single
+ * DndContext, so tasks can be dragged across parents. Tab / Shift+Tab on the drag
+ * handle indents / outdents the task. Metadata (priority, due date, tags) is shown
+ * under the title and edited in the TaskDetailPanel. Tasks waiting on open
+ * blockers get a "Blocked" badge. Ctrl/Cmd-click selects a task, Shift-click
+ * a range, for the page's bulk actions.
  */
 
 'use client';
@@ -8,22 +13,33 @@
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { TaskComponent } from '@/patterns/composite/TaskComponent';
-import { GripVertical, Check, Trash2, Edit2, Plus } from 'lucide-react';
-import { useState } from 'react';
+import {
+  GripVertical,
+  Check,
+  Trash2,
+  Edit2,
+  Plus,
+  FileText,
+  CalendarDays,
+  Users,
+  Minus,
+  Gauge,
+  Lock,
+  Repeat,
+  Copy,
+} from 'lucide-react';
+import { useState, type KeyboardEvent, type MouseEvent } from 'react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { PRIORITY_LABELS } from '@/components/TaskDetailPanel';
+import { toLocalDate } from '@/lib/date';
 import {
-  DndContext,
-  closestCenter,
-  KeyboardSensor,
-  PointerSensor,
-  useSensor,
-  useSensors,
-  DragEndEvent,
-} from '@dnd-kit/core';
+  describeRecurrence,
+  isValidRecurrence,
+  parseRecurrence,
+} from '@/patterns/composite/Recurrence';
 import {
-  arrayMove,
   SortableContext,
-  sortableKeyboardCoordinates,
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
 
@@ -33,7 +49,13 @@ interface SortableTaskItemProps {
   onDelete: (taskId: string) => void;
   onEdit: (taskId: string, newTitle: string) => void;
   onAddSubtask?: (parentId: string, title: string) => void;
-  onReorderSubtasks?: (parentId: string, reorderedChildren: TaskComponent[]) => void;
+  onDuplicate?: (taskId: string) => void;
+  onIndent?: (taskId: string) => void;
+  onOutdent?: (taskId: string) => void;
+  onOpenDetails?: (taskId: string) => void;
+  getOpenBlockers?: (task: TaskComponent) => TaskComponent[];
+  isSelected?: (taskId: string) => boolean;
+  onSelect?: (taskId: string, range: boolean) => void;
   level?: number;
 }
 
@@ -43,7 +65,13 @@ export function SortableTaskItem({
   onDelete,
   onEdit,
   onAddSubtask,
-  onReorderSubtasks,
+  onDuplicate,
+  onIndent,
+  onOutdent,
+  onOpenDetails,
+  getOpenBlockers,
+  isSelected,
+  onSelect,
   level = 0,
 }: SortableTaskItemProps) {
   const {
@@ -60,13 +88,6 @@ export function SortableTaskItem({
   const [isAddingSubtask, setIsAddingSubtask] = useState(false);
   const [subtaskTitle, setSubtaskTitle] = useState('');
 
-  const sensors = useSensors(
-    useSensor(PointerSensor),
-    useSensor(KeyboardSensor, {
-      coordinateGetter: sortableKeyboardCoordinates,
-    })
-  );
-
   const style = {
     transform: CSS.Transform.toString(transform),
     transition,
@@ -88,32 +109,67 @@ export function SortableTaskItem({
     }
   };
 
-  const handleDragEnd = (event: DragEndEvent) => {
-    const { active, over } = event;
+  // Tab / Shift+Tab on the drag handle: indent under previous sibling / outdent
+  const handleHandleKeyDown = (e: KeyboardEvent<HTMLButtonElement>) => {
+    if (e.key === 'Tab' && (onIndent || onOutdent)) {
+      e.preventDefault();
+      if (e.shiftKey) {
+        onOutdent?.(task.id);
+      } else {
+        onIndent?.(task.id);
+      }
+      return;
+    }
+    listeners?.onKeyDown?.(e);
+  };
 
-    if (!over || active.id === over.id || !task.children) return;
+  // Shift-click extends the selection, Ctrl/Cmd-click toggles this task.
+  // Clicks on the card's buttons and inputs keep their own behaviour.
+  const handleCardClick = (e: MouseEvent<HTMLDivElement>) => {
+    if (!onSelect || !(e.shiftKey || e.ctrlKey || e.metaKey)) return;
+    if ((e.target as HTMLElement).closest('button, input, a')) return;
+    e.preventDefault();
+    onSelect(task.id, e.shiftKey);
+  };
 
-    const oldIndex = task.children.findIndex((child) => child.id === active.id);
-    const newIndex = task.children.findIndex((child) => child.id === over.id);
+  const indentClass = level === 0 ? '' : 'ml-8';
 
-    if (oldIndex === -1 || newIndex === -1) return;
+  // Tri-state checkbox: a group is 'partial' while only part of its subtree is done
+  const completionState = task.getCompletionState();
 
-    const reorderedChildren = arrayMove(task.children, oldIndex, newIndex);
-    onReorderSubtasks?.(task.id, reorderedChildren);
-  };
+  // Completed tasks are no longer waiting on anything
+  const openBlockers = task.completed ? [] : getOpenBlockers?.(task) ?? [];
 
-  const indentClass = level === 0 ? '' : 'ml-8';
+  const hasMetadata = Boolean(
+    openBlockers.length > 0 ||
+      task.priority ||
+      task.dueDate ||
+      task.tags?.length ||
+      task.assigneeIds?.length ||
+      task.estimate !== undefined ||
+      task.recurrence
+  );
+  const isOverdue =
+    !task.completed && !!task.dueDate && task.dueDate < toLocalDate();
 
   return (
     <div ref={setNodeRef} style={style} className={indentClass}>
-      <div className="bg-card border border-border rounded-xl p-4 mb-2 hover:shadow-md transition-shadow group">
+      <div
+        onClick={handleCardClick}
+        aria-selected={isSelected?.(task.id) ?? undefined}
+        className={`bg-card border rounded-xl p-4 mb-2 hover:shadow-md transition-shadow group select-none ${
+          isSelected?.(task.id) ? 'border-primary ring-2 ring-primary/40' : 'border-border'
+        }`}
+      >
         <div className="flex items-center gap-3">
           {/* Drag Handle */}
           <button
             {...attributes}
             {...listeners}
-            className="cursor-grab active:cursor-grabbing opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-accent rounded flex-shrink-0"
-            aria-label="Drag to reorder"
+            onKeyDown={handleHandleKeyDown}
+            className="cursor-grab active:cursor-grabbing opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity p-1 hover:bg-accent rounded flex-shrink-0"
+            aria-label="Drag to reorder, Tab to indent, Shift+Tab to outdent"
+            title="Drag to move · Tab / Shift+Tab to indent / outdent"
           >
             <GripVertical className="w-4 h-4 text-muted-foreground" />
           </button>
@@ -121,13 +177,18 @@ export function SortableTaskItem({
           {/* Checkbox */}
           <button
             onClick={() => onToggle(task.id)}
+            role="checkbox"
+            aria-checked={completionState === 'partial' ? 'mixed' : completionState === 'complete'}
             className={`flex-shrink-0 w-6 h-6 rounded border-2 flex items-center justify-center transition-colors ${
-              task.completed
+              completionState === 'complete'
                 ? 'bg-success border-success'
-                : 'border-border hover:border-primary'
+                : completionState === 'partial'
+                  ? 'bg-success/40 border-success'
+                  : 'border-border hover:border-primary'
             }`}
           >
-            {task.completed && <Check className="w-4 h-4 text-white" />}
+            {completionState === 'complete' && <Check className="w-4 h-4 text-white" />}
+            {completionState === 'partial' && <Minus className="w-4 h-4 text-white" />}
           </button>
 
           {/* Title or Edit Input */}
@@ -159,7 +220,18 @@ export function SortableTaskItem({
 
           {/* Actions */}
           <div className="flex gap-2">
-            {!isEditing && level < 1 && onAddSubtask && (
+            {!isEditing && onOpenDetails && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onOpenDetails(task.id)}
+                className="h-8 w-8"
+                title="Details"
+              >
+                <FileText className="w-4 h-4" />
+              </Button>
+            )}
+            {!isEditing && onAddSubtask && (
               <Button
                 variant="ghost"
                 size="icon"
@@ -170,6 +242,17 @@ export function SortableTaskItem({
                 <Plus className="w-4 h-4" />
               </Button>
             )}
+            {!isEditing && onDuplicate && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onDuplicate(task.id)}
+                className="h-8 w-8"
+                title="Duplicate"
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="icon"
@@ -191,6 +274,68 @@ export function SortableTaskItem({
           </div>
         </div>
 
+        {/* Metadata */}
+        {hasMetadata && (
+          <div className="mt-2 ml-16 flex flex-wrap items-center gap-2 text-xs">
+            {openBlockers.length > 0 && (
+              <Badge
+                variant="outline"
+                className="rounded-lg gap-1 border-amber-500 text-amber-600 dark:text-amber-400"
+                title={`Blocked by ${openBlockers.map((blocker) => blocker.title).join(', ')}`}
+              >
+                <Lock className="w-3 h-3" />
+                Blocked
+              </Badge>
+            )}
+            {task.priority && (
+              <Badge
+                variant={task.priority === 'urgent' ? 'destructive' : 'secondary'}
+                className="rounded-lg"
+              >
+                {PRIORITY_LABELS[task.priority]}
+              </Badge>
+            )}
+            {task.dueDate && (
+              <span
+                className={`flex items-center gap-1 ${
+                  isOverdue ? 'text-destructive' : 'text-muted-foreground'
+                }`}
+              >
+                <CalendarDays className="w-3 h-3" />
+                {task.dueDate}
+              </span>
+            )}
+            {task.assigneeIds && task.assigneeIds.length > 0 && (
+              <span
+                className="flex items-center gap-1 text-muted-foreground"
+                title={`${task.assigneeIds.length} assignee(s)`}
+              >
+                <Users className="w-3 h-3" />
+                {task.assigneeIds.length}
+              </span>
+            )}
+            {task.recurrence && (
+              <span className="flex items-center gap-1 text-muted-foreground" title={task.recurrence}>
+                <Repeat className="w-3 h-3" />
+                {isValidRecurrence(task.recurrence)
+                  ? describeRecurrence(parseRecurrence(task.recurrence))
+                  : task.recurrence}
+              </span>
+            )}
+            {task.estimate !== undefined && (
+              <span className="flex items-center gap-1 text-muted-foreground" title="Effort estimate">
+                <Gauge className="w-3 h-3" />
+                {task.estimate}
+              </span>
+            )}
+            {task.tags?.map((tag) => (
+              <Badge key={tag} variant="outline" className="rounded-lg">
+                #{tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+
         {/* Stats for tasks with children */}
         {task.children && task.children.length > 0 && (
           <div className="mt-2 text-xs text-muted-foreground">
@@ -236,31 +381,32 @@ export function SortableTaskItem({
         </div>
       )}
 
-      {/* Recursive Subtasks with Drag and Drop */}
+      {/* Recursive Subtasks - sortable list identified by this task's id */}
       {task.children && task.children.length > 0 && (
-        <DndContext
-          sensors={sensors}
-          collisionDetection={closestCenter}
-          onDragEnd={handleDragEnd}
+        <SortableContext
+          id={task.id}
+          items={task.children.map((child) => child.id)}
+          strategy={verticalListSortingStrategy}
         >
-          <SortableContext
-            items={task.children.map((child) => child.id)}
-            strategy={verticalListSortingStrategy}
-          >
-            {task.children.map((child) => (
-              <SortableTaskItem
-                key={child.id}
-                task={child}
-                onToggle={onToggle}
-                onDelete={onDelete}
-                onEdit={onEdit}
-                onAddSubtask={onAddSubtask}
-                onReorderSubtasks={onReorderSubtasks}
-                level={level + 1}
-              />
-            ))}
-          </SortableContext>
-        </DndContext>
+          {task.children.map((child) => (
+            <SortableTaskItem
+              key={child.id}
+              task={child}
+              onToggle={onToggle}
+              onDelete={onDelete}
+              onEdit={onEdit}
+              onAddSubtask={onAddSubtask}
+              onDuplicate={onDuplicate}
+              onIndent={onIndent}
+              onOutdent={onOutdent}
+              onOpenDetails={onOpenDetails}
+              getOpenBlockers={getOpenBlockers}
+              isSelected={isSelected}
+              onSelect={onSelect}
+              level={level + 1}
+            />
+          ))}
+        </SortableContext>
       )}
     </div>
   );
@@ -5,19 +5,28 @@
 
 'use client';
 
-import { useObservableValue } from '@/patterns/observer';
+import { useState } from 'react';
+import { useObserver } from '@/patterns/observer';
 import { taskStore } from '@/patterns/observer/TaskStore';
+import type { ProgressMode } from '@/patterns/composite/Progress';
+import { ProgressModeToggle } from '@/components/ProgressModeToggle';
 import { CheckCircle2, Circle, TrendingUp } from 'lucide-react';
 
 export function Statistics() {
-  // PATTERN OBSERVER - Subscribe automaticaly when stats change
-  const stats = useObservableValue(taskStore, () => taskStore.getStatistics());
+  const [mode, setMode] = useState<ProgressMode>('count');
+
+  // PATTERN OBSERVER - Re-render when stats change
+  useObserver(taskStore);
+  const stats = taskStore.getStatistics(mode);
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 transition-colors">
-      <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
-        Global Statistics
-      </h2>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          Global Statistics
+        </h2>
+        <ProgressModeToggle mode={mode} onChange={setMode} />
+      </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         {/* Total Tasks */}
@@ -60,7 +69,9 @@ export function Statistics() {
           <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-2">
             <span>Overall Progress</span>
             <span>
-              {stats.completedTasks} / {stats.totalTasks}
+              {mode === 'effort'
+                ? `${stats.completedEffort} / ${stats.totalEffort} effort`
+                : `${stats.completedTasks} / ${stats.totalTasks}`}
             </span>
           </div>
           <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-3 overflow-hidden">
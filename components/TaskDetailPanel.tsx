@@ -0,0 +1,437 @@
+/**
+ * TaskDetailPanel - Edit a task's metadata (due date, priority, description, tags,
+ * recurrence), its assignees and its blockers. Only the fields that changed are sent back:
+ * metadata, assignees and each added / removed blocker are separate undoable commands.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CalendarDays, Flag, Gauge, Lock, Repeat, Tag, Users, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  TASK_PRIORITIES,
+  type TaskComponent,
+  type TaskPriority,
+} from '@/patterns/composite/TaskComponent';
+import {
+  describeRecurrence,
+  formatRecurrence,
+  parseRecurrence,
+} from '@/patterns/composite/Recurrence';
+import type { TaskMetadataChanges } from '@/patterns/command';
+
+export interface AssigneeOption {
+  userId: string;
+  label: string;
+}
+
+interface TaskDetailPanelProps {
+  task: TaskComponent | null;
+  members: AssigneeOption[];
+  onClose: () => void;
+  onSave: (taskId: string, changes: TaskMetadataChanges) => void;
+  onAssign: (taskId: string, assigneeIds: string[]) => void;
+  // Tasks that can block this one without creating a cycle
+  blockerOptions: TaskComponent[];
+  onAddDependency: (taskId: string, blockerId: string) => void;
+  onRemoveDependency: (taskId: string, blockerId: string) => void;
+}
+
+// Radix Select items cannot have an empty value
+const NO_PRIORITY = 'none';
+
+export const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+// Recurrence presets; anything else is edited as a custom rule
+const NO_RECURRENCE = 'none';
+const CUSTOM_RECURRENCE = 'custom';
+
+const RECURRENCE_PRESETS: Record<string, string> = {
+  'FREQ=DAILY': 'Daily',
+  'FREQ=WEEKLY': 'Weekly',
+  'FREQ=MONTHLY': 'Monthly',
+};
+
+// Custom rule input -> canonical rule and error message
+function readRecurrence(input: string): { rule: string | null; error: string } {
+  if (!input.trim()) return { rule: null, error: '' };
+  try {
+    return { rule: formatRecurrence(parseRecurrence(input)), error: '' };
+  } catch (err: any) {
+    return { rule: null, error: err.message };
+  }
+}
+
+// Comma-separated input -> trimmed, de-duplicated tags
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+export function TaskDetailPanel({
+  task,
+  members,
+  onClose,
+  onSave,
+  onAssign,
+  blockerOptions,
+  onAddDependency,
+  onRemoveDependency,
+}: TaskDetailPanelProps) {
+  const [dueDate, setDueDate] = useState('');
+  const [priority, setPriority] = useState<string>(NO_PRIORITY);
+  const [description, setDescription] = useState('');
+  const [tags, setTags] = useState('');
+  const [assigneeIds, setAssigneeIds] = useState<string[]>([]);
+  const [estimate, setEstimate] = useState('');
+  const [blockedByIds, setBlockedByIds] = useState<string[]>([]);
+  const [recurrencePreset, setRecurrencePreset] = useState(NO_RECURRENCE);
+  const [customRecurrence, setCustomRecurrence] = useState('');
+
+  // Reset the form whenever another task is opened
+  useEffect(() => {
+    if (!task) return;
+    setDueDate(task.dueDate ?? '');
+    setPriority(task.priority ?? NO_PRIORITY);
+    setDescription(task.description ?? '');
+    setTags((task.tags ?? []).join(', '));
+    setAssigneeIds(task.assigneeIds ?? []);
+    setEstimate(task.estimate !== undefined ? String(task.estimate) : '');
+    setBlockedByIds(task.blockedByIds ?? []);
+    setRecurrencePreset(
+      !task.recurrence
+        ? NO_RECURRENCE
+        : task.recurrence in RECURRENCE_PRESETS
+          ? task.recurrence
+          : CUSTOM_RECURRENCE
+    );
+    setCustomRecurrence(task.recurrence ?? '');
+  }, [task]);
+
+  const custom = readRecurrence(customRecurrence);
+  const recurrence =
+    recurrencePreset === NO_RECURRENCE
+      ? null
+      : recurrencePreset === CUSTOM_RECURRENCE
+        ? custom.rule
+        : recurrencePreset;
+  const recurrenceError =
+    recurrencePreset === CUSTOM_RECURRENCE
+      ? custom.error || (custom.rule ? '' : 'Enter a rule, e.g. FREQ=WEEKLY;BYDAY=MO')
+      : '';
+
+  // Deleting a task removes it from every blocker list, so each id matches an option
+  const blockers = blockerOptions.filter((option) => blockedByIds.includes(option.id));
+  const availableBlockers = blockerOptions.filter((option) => !blockedByIds.includes(option.id));
+
+  const toggleAssignee = (userId: string) => {
+    setAssigneeIds((ids) =>
+      ids.includes(userId) ? ids.filter((id) => id !== userId) : [...ids, userId]
+    );
+  };
+
+  const handleSave = () => {
+    if (!task) return;
+
+    const changes: TaskMetadataChanges = {};
+
+    const newDueDate = dueDate || null;
+    if (newDueDate !== (task.dueDate ?? null)) changes.dueDate = newDueDate;
+
+    const newPriority = priority === NO_PRIORITY ? null : (priority as TaskPriority);
+    if (newPriority !== (task.priority ?? null)) changes.priority = newPriority;
+
+    const newDescription = description.trim() || null;
+    if (newDescription !== (task.description ?? null)) changes.description = newDescription;
+
+    const newTags = parseTags(tags);
+    if (newTags.join(',') !== (task.tags ?? []).join(',')) {
+      changes.tags = newTags.length > 0 ? newTags : null;
+    }
+
+    const parsedEstimate = parseFloat(estimate);
+    const newEstimate = Number.isFinite(parsedEstimate) && parsedEstimate >= 0 ? parsedEstimate : null;
+    if (newEstimate !== (task.estimate ?? null)) changes.estimate = newEstimate;
+
+    if (recurrence !== (task.recurrence ?? null)) changes.recurrence = recurrence;
+
+    if (Object.keys(changes).length > 0) {
+      onSave(task.id, changes);
+    }
+
+    const oldAssigneeIds = task.assigneeIds ?? [];
+    if (
+      assigneeIds.length !== oldAssigneeIds.length ||
+      assigneeIds.some((id) => !oldAssigneeIds.includes(id))
+    ) {
+      onAssign(task.id, assigneeIds);
+    }
+
+    const oldBlockedByIds = task.blockedByIds ?? [];
+    oldBlockedByIds
+      .filter((id) => !blockedByIds.includes(id))
+      .forEach((id) => onRemoveDependency(task.id, id));
+    blockedByIds
+      .filter((id) => !oldBlockedByIds.includes(id))
+      .forEach((id) => onAddDependency(task.id, id));
+    onClose();
+  };
+
+  return (
+    <Dialog open={task !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>{task?.title}</DialogTitle>
+          <DialogDescription>
+            Due date, priority, recurrence, estimate, description, tags, assignees and blockers
+            of this task.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="task-due-date" className="flex items-center gap-2">
+                <CalendarDays className="w-4 h-4" />
+                Due date
+              </Label>
+              <input
+                id="task-due-date"
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                className="w-full px-3 py-2 border border-border bg-background text-foreground rounded-xl focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Flag className="w-4 h-4" />
+                Priority
+              </Label>
+              <Select value={priority} onValueChange={setPriority}>
+                <SelectTrigger className="rounded-xl">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PRIORITY}>None</SelectItem>
+                  {TASK_PRIORITIES.map((level) => (
+                    <SelectItem key={level} value={level}>
+                      {PRIORITY_LABELS[level]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <Repeat className="w-4 h-4" />
+              Repeat
+            </Label>
+            <Select value={recurrencePreset} onValueChange={setRecurrencePreset}>
+              <SelectTrigger className="rounded-xl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_RECURRENCE}>Does not repeat</SelectItem>
+                {Object.entries(RECURRENCE_PRESETS).map(([rule, label]) => (
+                  <SelectItem key={rule} value={rule}>
+                    {label}
+                  </SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_RECURRENCE}>Custom...</SelectItem>
+              </SelectContent>
+            </Select>
+            {recurrencePreset === CUSTOM_RECURRENCE && (
+              <>
+                <input
+                  type="text"
+                  value={customRecurrence}
+                  onChange={(e) => setCustomRecurrence(e.target.value)}
+                  placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+                  aria-label="Custom recurrence rule"
+                  className="w-full px-3 py-2 border border-border bg-background text-foreground rounded-xl font-mono text-sm focus:outline-none focus:ring-2 focus:ring-ring placeholder:text-muted-foreground"
+                />
+                <p
+                  className={`text-xs ${
+                    recurrenceError ? 'text-destructive' : 'text-muted-foreground'
+                  }`}
+                >
+                  {recurrenceError ||
+                    (custom.rule && describeRecurrence(parseRecurrence(custom.rule)))}
+                </p>
+              </>
+            )}
+            {recurrence && (
+              <p className="text-xs text-muted-foreground">
+                Completing this task schedules the next occurrence.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="task-estimate" className="flex items-center gap-2">
+              <Gauge className="w-4 h-4" />
+              Effort estimate (points or hours)
+            </Label>
+            <input
+              id="task-estimate"
+              type="number"
+              min={0}
+              step="any"
+              value={estimate}
+              onChange={(e) => setEstimate(e.target.value)}
+              placeholder="1"
+              className="w-full px-3 py-2 border border-border bg-background text-foreground rounded-xl focus:outline-none focus:ring-2 focus:ring-ring placeholder:text-muted-foreground"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="task-description">Description (markdown)</Label>
+            <textarea
+              id="task-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={6}
+              placeholder="Notes, links, checklists..."
+              className="w-full px-3 py-2 border border-border bg-background text-foreground rounded-xl font-mono text-sm focus:outline-none focus:ring-2 focus:ring-ring placeholder:text-muted-foreground"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="task-tags" className="flex items-center gap-2">
+              <Tag className="w-4 h-4" />
+              Tags
+            </Label>
+            <input
+              id="task-tags"
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="design, backend, ..."
+              className="w-full px-3 py-2 border border-border bg-background text-foreground rounded-xl focus:outline-none focus:ring-2 focus:ring-ring placeholder:text-muted-foreground"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <Users className="w-4 h-4" />
+              Assignees
+            </Label>
+            {members.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No project members</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {members.map((member) => {
+                  const selected = assigneeIds.includes(member.userId);
+                  return (
+                    <button
+                      key={member.userId}
+                      type="button"
+                      onClick={() => toggleAssignee(member.userId)}
+                      className={`px-3 py-1 rounded-xl border text-sm transition-colors ${
+                        selected
+                          ? 'bg-primary text-primary-foreground border-primary'
+                          : 'border-border text-foreground hover:bg-accent'
+                      }`}
+                      title={member.userId}
+                    >
+                      {member.label}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <Lock className="w-4 h-4" />
+              Blocked by
+            </Label>
+            {blockers.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {blockers.map((blocker) => (
+                  <span
+                    key={blocker.id}
+                    className={`flex items-center gap-1 pl-3 pr-1 py-1 rounded-xl border border-border text-sm ${
+                      blocker.completed ? 'line-through text-muted-foreground' : 'text-foreground'
+                    }`}
+                  >
+                    {blocker.title}
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setBlockedByIds((ids) => ids.filter((id) => id !== blocker.id))
+                      }
+                      className="p-0.5 rounded hover:bg-accent"
+                      aria-label={`Remove blocker ${blocker.title}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            {availableBlockers.length > 0 ? (
+              <Select
+                value=""
+                onValueChange={(blockerId) => setBlockedByIds((ids) => [...ids, blockerId])}
+              >
+                <SelectTrigger className="rounded-xl">
+                  <SelectValue placeholder="Add a blocking task..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableBlockers.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              blockers.length === 0 && (
+                <p className="text-sm text-muted-foreground">No other task can block this one</p>
+              )
+            )}
+          </div>
+
+          <div className="flex gap-3 justify-end">
+            <Button variant="outline" onClick={onClose} className="rounded-xl">
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!!recurrenceError} className="rounded-xl">
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,9 @@
+// Calendar dates (YYYY-MM-DD) as the user sees them
+
+// Date in the user's time zone: toISOString() would give the UTC date,
+// which is already tomorrow (or still yesterday) for part of the day
+export function toLocalDate(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
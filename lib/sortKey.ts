@@ -0,0 +1,65 @@
+/**
+ * Fractional ordering keys for tasks
+ *
+ * Keys are base-62 strings compared byte-wise ('0' < '9' < 'A' < 'Z' < 'a' < 'z'),
+ * read as the digits of a fraction between 0 and 1. A key can always be generated
+ * between two others, so inserting or moving a task only writes that task's row.
+ * Keys never end with '0', which keeps room below every key.
+ */
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// Midpoint of two fractions given by their digits (b = null means 1)
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Skip the common prefix
+    let n = 0;
+    while ((a[n] || '0') === b[n]) n++;
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+
+  // Consecutive digits: b's first digit alone is already between a and b
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+function assertValidKey(key: string): void {
+  if (!key || key.endsWith('0') || key.split('').some((char) => !DIGITS.includes(char))) {
+    throw new Error(`Invalid sort key: "${key}"`);
+  }
+}
+
+/**
+ * Returns a key strictly between `before` and `after`.
+ * null means "no neighbour" (start or end of the list).
+ */
+export function generateKeyBetween(before: string | null, after: string | null): string {
+  if (before !== null) assertValidKey(before);
+  if (after !== null) assertValidKey(after);
+
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Sort key "${before}" must be lower than "${after}"`);
+  }
+
+  return midpoint(before ?? '', after);
+}
+
+/**
+ * Compares two keys the way Postgres does with COLLATE "C"
+ */
+export function compareSortKeys(a: string, b: string): number {
+  if (a === b) return 0;
+  return a < b ? -1 : 1;
+}
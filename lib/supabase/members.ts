@@ -21,38 +21,83 @@ export interface ProjectMember {
   };
 }
 
+export interface MemberProfile {
+  user_id: string;
+  email: string;
+  full_name?: string;
+  is_owner: boolean;
+}
+
+/**
+ * Get the names and emails of a project's owner and members (owner first).
+ * Profiles are private, so they are read through an RPC that only answers
+ * people who belong to the project.
+ */
+export async function getProjectMemberProfiles(projectId: string): Promise<MemberProfile[]> {
+  const supabase = createClient();
+
+  const { data, error } = await supabase.rpc('get_project_member_profiles', {
+    p_project_id: projectId,
+  });
+
+  if (error) {
+    console.error('Error fetching member profiles:', error);
+    throw new Error(error.message);
+  }
+
+  return (data || []).map((profile: any) => ({
+    user_id: profile.user_id,
+    email: profile.email,
+    full_name: profile.full_name || undefined,
+    is_owner: profile.is_owner,
+  }));
+}
+
+/**
+ * Name to show for a member: full name, else email
+ */
+export function getMemberDisplayName(profile: { email: string; full_name?: string }): string {
+  return profile.full_name || profile.email;
+}
+
 /**
  * Get all members of a project
  */
 export async function getProjectMembers(projectId: string): Promise<ProjectMember[]> {
   const supabase = createClient();
 
-  // First, get all members
-  const { data, error } = await supabase
-    .from('project_members')
-    .select('*')
-    .eq('project_id', projectId)
-    .order('accepted_at', { ascending: true });
+  const [{ data, error }, profiles] = await Promise.all([
+    supabase
+      .from('project_members')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('accepted_at', { ascending: true }),
+    // Without profiles, members are still listed (by user id)
+    getProjectMemberProfiles(projectId).catch((): MemberProfile[] => []),
+  ]);
 
   if (error) {
     console.error('Error fetching project members:', error);
     throw new Error(error.message);
   }
 
-  // For now, return without user details (we can add a users table later)
-  return (data || []).map((member: any) => ({
-    id: member.id,
-    project_id: member.project_id,
-    user_id: member.user_id,
-    role: member.role,
-    invited_by: member.invited_by,
-    created_at: member.accepted_at || new Date().toISOString(),
-    updated_at: member.accepted_at || new Date().toISOString(),
-    user: {
-      email: member.user_id, // Display user ID for now
-      full_name: undefined,
-    },
-  }));
+  return (data || []).map((member: any) => {
+    const profile = profiles.find((candidate) => candidate.user_id === member.user_id);
+
+    return {
+      id: member.id,
+      project_id: member.project_id,
+      user_id: member.user_id,
+      role: member.role,
+      invited_by: member.invited_by,
+      created_at: member.accepted_at || new Date().toISOString(),
+      updated_at: member.accepted_at || new Date().toISOString(),
+      user: {
+        email: profile?.email ?? member.user_id,
+        full_name: profile?.full_name,
+      },
+    };
+  });
 }
 
 /**
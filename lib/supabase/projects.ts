@@ -4,8 +4,9 @@
 
 import { createClient } from './client';
 import { Project } from '@/lib/types';
-import { Task } from '@/patterns/composite/Task';
-import { TaskGroup } from '@/patterns/composite/TaskGroup';
+import { buildProjectRoot, fetchProject } from './tasks';
+import type { CompletionPolicy } from '@/patterns/composite/CompletionPolicy';
+import { DEFAULT_HISTORY_SIZE } from '@/patterns/command/CommandManager';
 
 /**
  * Fetch all projects for the current user
@@ -38,7 +39,7 @@ export async function fetchUserProjects(): Promise<Project[]> {
     .from('tasks')
     .select('*')
     .in('project_id', projectIds)
-    .order('position', { ascending: true });
+    .order('sort_key', { ascending: true });
 
   if (tasksError) {
     console.error('Error fetching tasks:', tasksError);
@@ -57,42 +58,17 @@ export async function fetchUserProjects(): Promise<Project[]> {
   // Convert to Project type with TaskComponent
   return projectsData.map((project: any) => {
     const projectTasks = tasksByProject.get(project.id) || [];
-
-    // Group tasks by parent_id to build tree
-    const tasksMap = new Map();
-    const rootTasks: any[] = [];
-
-    // First pass: create all task objects
-    projectTasks.forEach((taskData: any) => {
-      const task = taskData.parent_id
-        ? new Task(taskData.id, taskData.title, taskData.completed)
-        : new TaskGroup(taskData.id, taskData.title, taskData.completed, []);
-
-      tasksMap.set(taskData.id, { task, data: taskData });
-
-      if (!taskData.parent_id) {
-        rootTasks.push({ task, data: taskData });
-      }
-    });
-
-    // Second pass: build tree structure
-    projectTasks.forEach((taskData: any) => {
-      if (taskData.parent_id) {
-        const parent = tasksMap.get(taskData.parent_id);
-        const child = tasksMap.get(taskData.id);
-
-        if (parent && child && 'addChild' in parent.task) {
-          (parent.task as TaskGroup).addChild(child.task);
-        }
-      }
-    });
+    const root = buildProjectRoot(project.id, project.name, projectTasks);
 
     return {
       id: project.id,
       name: project.name,
       description: project.description,
       ownerId: project.owner_id,
-      tasks: rootTasks.map(({ task }) => task),
+      completionPolicy: project.completion_policy ?? 'manual',
+      historyLimit: project.history_limit ?? DEFAULT_HISTORY_SIZE,
+      root,
+      tasks: root.children,
       createdAt: new Date(project.created_at),
       updatedAt: new Date(project.updated_at),
     };
@@ -123,12 +99,17 @@ export async function createProject(name: string, description?: string): Promise
     throw error;
   }
 
+  const root = buildProjectRoot(data.id, data.name, []);
+
   return {
     id: data.id,
     name: data.name,
     description: data.description,
     ownerId: data.owner_id,
-    tasks: [],
+    completionPolicy: data.completion_policy ?? 'manual',
+    historyLimit: data.history_limit ?? DEFAULT_HISTORY_SIZE,
+    root,
+    tasks: root.children,
     createdAt: new Date(data.created_at),
     updatedAt: new Date(data.updated_at),
   };
@@ -156,13 +137,24 @@ export async function deleteProject(projectId: string): Promise<void> {
  */
 export async function updateProject(
   projectId: string,
-  updates: { name?: string; description?: string }
+  updates: {
+    name?: string;
+    description?: string;
+    completionPolicy?: CompletionPolicy;
+    historyLimit?: number;
+  }
 ): Promise<void> {
   const supabase = createClient();
 
+  const { completionPolicy, historyLimit, ...fields } = updates;
+
   const { error } = await supabase
     .from('projects')
-    .update(updates)
+    .update({
+      ...fields,
+      ...(completionPolicy !== undefined && { completion_policy: completionPolicy }),
+      ...(historyLimit !== undefined && { history_limit: historyLimit }),
+    })
     .eq('id', projectId);
 
   if (error) {
@@ -170,3 +162,38 @@ export async function updateProject(
     throw error;
   }
 }
+
+export interface DuplicateProjectOptions {
+  name?: string; // Defaults to "<name> (copy)"
+  keepCompletion: boolean; // Otherwise every task of the copy is reset
+  copyMembers: boolean;
+}
+
+/**
+ * Duplicate a project with its whole task tree (and optionally its members).
+ * The copy runs server-side in one transaction through the duplicate_project RPC
+ * (see supabase/migrations/DUPLICATE_PROJECT_RPC.sql).
+ */
+export async function duplicateProject(
+  projectId: string,
+  options: DuplicateProjectOptions
+): Promise<Project> {
+  const supabase = createClient();
+
+  const { data: newProjectId, error } = await supabase.rpc('duplicate_project', {
+    p_project_id: projectId,
+    p_name: options.name ?? null,
+    p_keep_completion: options.keepCompletion,
+    p_copy_members: options.copyMembers,
+  });
+
+  if (error) {
+    console.error('Error duplicating project:', error);
+    throw error;
+  }
+
+  const project = await fetchProject(newProjectId as string);
+  if (!project) throw new Error('Duplicated project not found');
+
+  return project;
+}
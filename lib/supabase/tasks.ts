@@ -1,10 +1,98 @@
 // Supabase Tasks API - CRUD operations for tasks
 
 import { createClient } from './client';
-import { Project } from '@/lib/types';
+import { Project, TaskSnapshot } from '@/lib/types';
 import { Task } from '@/patterns/composite/Task';
 import { TaskGroup } from '@/patterns/composite/TaskGroup';
-import { TaskComponent } from '@/patterns/composite/TaskComponent';
+import { TaskComponent, TaskMetadata, pickMetadata } from '@/patterns/composite/TaskComponent';
+import { breadthFirst } from '@/patterns/composite/TaskIterator';
+import {
+  DEFAULT_HISTORY_SIZE,
+  type SerializableCommandHistory,
+} from '@/patterns/command/CommandManager';
+import type { TaskMetadataChanges } from '@/patterns/command/commands/UpdateTaskMetadataCommand';
+import { compareSortKeys } from '@/lib/sortKey';
+
+// Order sibling rows by sort_key (ties broken by id), or by legacy position
+// for rows that have not been migrated yet
+function compareTaskRows(a: any, b: any): number {
+  if (a.sort_key && b.sort_key) {
+    return compareSortKeys(a.sort_key, b.sort_key) || compareSortKeys(a.id, b.id);
+  }
+  return (a.position ?? 0) - (b.position ?? 0);
+}
+
+// Metadata columns of a task row (an empty tag list counts as no tags)
+function metadataFromRow(row: any): TaskMetadata {
+  return pickMetadata({
+    dueDate: row.due_date,
+    priority: row.priority,
+    description: row.description,
+    tags: row.tags?.length ? row.tags : undefined,
+    assigneeIds: row.assignee_ids?.length ? row.assignee_ids : undefined,
+    estimate: row.estimate ?? undefined,
+    blockedByIds: row.blocked_by_ids?.length ? row.blocked_by_ids : undefined,
+    recurrence: row.recurrence,
+  });
+}
+
+// Column values for the given metadata fields - null clears a field
+function toMetadataColumns(changes: TaskMetadataChanges): Record<string, any> {
+  const columns: Record<string, any> = {};
+  if ('dueDate' in changes) columns.due_date = changes.dueDate ?? null;
+  if ('priority' in changes) columns.priority = changes.priority ?? null;
+  if ('description' in changes) columns.description = changes.description ?? null;
+  if ('tags' in changes) columns.tags = changes.tags ?? [];
+  if ('assigneeIds' in changes) columns.assignee_ids = changes.assigneeIds ?? [];
+  if ('estimate' in changes) columns.estimate = changes.estimate ?? null;
+  if ('blockedByIds' in changes) columns.blocked_by_ids = changes.blockedByIds ?? [];
+  if ('recurrence' in changes) columns.recurrence = changes.recurrence ?? null;
+  return columns;
+}
+
+// Build Composite tree from flat rows - any row with children becomes a TaskGroup,
+// so subtasks can be nested to any depth. Root rows are always groups.
+export function buildTaskTree(rows: any[]): TaskComponent[] {
+  const sortedRows = [...rows].sort(compareTaskRows);
+  const parentIds = new Set(sortedRows.map((row) => row.parent_id).filter(Boolean));
+
+  const tasksMap = new Map<string, TaskComponent>();
+  const rootTasks: TaskComponent[] = [];
+
+  // First pass: create Task or TaskGroup instances
+  sortedRows.forEach((row) => {
+    const task = !row.parent_id || parentIds.has(row.id)
+      ? new TaskGroup(row.id, row.title, row.completed, [])
+      : new Task(row.id, row.title, row.completed);
+    task.sortKey = row.sort_key ?? undefined;
+    Object.assign(task, metadataFromRow(row));
+
+    tasksMap.set(row.id, task);
+  });
+
+  // Second pass: build parent-child relationships (rows are already ordered)
+  sortedRows.forEach((row) => {
+    const task = tasksMap.get(row.id)!;
+
+    if (!row.parent_id) {
+      rootTasks.push(task);
+      return;
+    }
+
+    const parent = tasksMap.get(row.parent_id);
+    if (parent instanceof TaskGroup) {
+      parent.addChild(task);
+    }
+  });
+
+  return rootTasks;
+}
+
+// Root container of a project's tree: root tasks are its children, so creating,
+// deleting and reordering them are ordinary commands on a TaskGroup
+export function buildProjectRoot(projectId: string, name: string, rows: any[]): TaskGroup {
+  return new TaskGroup(projectId, name, false, buildTaskTree(rows));
+}
 
 // Fetch project with all tasks, building Composite pattern tree structure
 export async function fetchProject(projectId: string): Promise<Project | null> {
@@ -24,96 +112,46 @@ export async function fetchProject(projectId: string): Promise<Project | null> {
     return null;
   }
 
-  // Build task tree from flat database structure
-  const tasksMap = new Map();
-  const rootTasks: any[] = [];
-
-  // First pass: create Task or TaskGroup instances
-  data.tasks.forEach((taskData: any) => {
-    const task = taskData.parent_id
-      ? new Task(taskData.id, taskData.title, taskData.completed)
-      : new TaskGroup(taskData.id, taskData.title, taskData.completed, []);
-
-    tasksMap.set(taskData.id, { task, data: taskData });
-
-    if (!taskData.parent_id) {
-      rootTasks.push({ task, data: taskData });
-    }
-  });
-
-  // Second pass: build parent-child relationships
-  data.tasks.forEach((taskData: any) => {
-    if (taskData.parent_id) {
-      const parent = tasksMap.get(taskData.parent_id);
-      const child = tasksMap.get(taskData.id);
-
-      if (parent && child && 'addChild' in parent.task) {
-        (parent.task as TaskGroup).addChild(child.task);
-      }
-    }
-  });
+  const root = buildProjectRoot(data.id, data.name, data.tasks);
 
   return {
     id: data.id,
     name: data.name,
     description: data.description,
     ownerId: data.owner_id,
-    tasks: rootTasks.map(({ task }) => task),
+    completionPolicy: data.completion_policy ?? 'manual',
+    historyLimit: data.history_limit ?? DEFAULT_HISTORY_SIZE,
+    root,
+    tasks: root.children,
     createdAt: new Date(data.created_at),
     updatedAt: new Date(data.updated_at),
   };
 }
 
-// Create task - returns Task for subtasks, TaskGroup for root tasks
-export async function createTask(
-  projectId: string,
-  title: string,
-  parentId?: string
-): Promise<TaskComponent> {
+const UNIQUE_VIOLATION = '23505';
+const MAX_INSERT_ATTEMPTS = 3;
+
+// Insert a task built in memory by CreateTaskCommand and return the sort key it
+// was stored with. Upsert keeps a redo idempotent.
+export async function createTask(row: TaskSnapshot): Promise<string> {
   const supabase = createClient();
 
-  // Calculate next position for ordering
-  let query = supabase
-    .from('tasks')
-    .select('position')
-    .eq('project_id', projectId);
+  // Without a sort key the server appends the row after its last sibling (assign_task_sort_key).
+  // Sibling keys are unique, so an insert racing with another client's fails and is retried.
+  const insert = () =>
+    supabase.from('tasks').upsert(toTaskRow(row)).select('sort_key').single();
 
-  if (parentId) {
-    query = query.eq('parent_id', parentId);
-  } else {
-    query = query.is('parent_id', null);
+  let { data, error } = await insert();
+  for (let attempt = 1; error?.code === UNIQUE_VIOLATION && attempt < MAX_INSERT_ATTEMPTS; attempt++) {
+    ({ data, error } = await insert());
   }
 
-  const { data: existingTasks } = await query
-    .order('position', { ascending: false })
-    .limit(1);
-
-  const nextPosition = existingTasks && existingTasks.length > 0
-    ? (existingTasks[0].position || 0) + 1
-    : 0;
-
-  const { data, error } = await supabase
-    .from('tasks')
-    .insert({
-      project_id: projectId,
-      title,
-      parent_id: parentId || null,
-      completed: false,
-      position: nextPosition,
-    })
-    .select()
-    .single();
-
   if (error) {
     console.error('Error creating task:', error);
     throw error;
   }
 
-  if (parentId) {
-    return new Task(data.id, data.title, data.completed);
-  } else {
-    return new TaskGroup(data.id, data.title, data.completed, []);
-  }
+  return data!.sort_key;
 }
 
 export async function updateTaskTitle(taskId: string, title: string): Promise<void> {
@@ -130,6 +168,24 @@ export async function updateTaskTitle(taskId: string, title: string): Promise<vo
   }
 }
 
+// Write only the given metadata fields (null clears a field)
+export async function updateTaskMetadata(
+  taskId: string,
+  changes: TaskMetadataChanges
+): Promise<void> {
+  const supabase = createClient();
+
+  const { error } = await supabase
+    .from('tasks')
+    .update(toMetadataColumns(changes))
+    .eq('id', taskId);
+
+  if (error) {
+    console.error('Error updating task metadata:', error);
+    throw error;
+  }
+}
+
 export async function toggleTaskCompletion(taskId: string, completed: boolean): Promise<void> {
   const supabase = createClient();
 
@@ -144,6 +200,29 @@ export async function toggleTaskCompletion(taskId: string, completed: boolean):
   }
 }
 
+// Write the completion status of several tasks (a toggle and its propagated changes)
+export async function setTasksCompletion(
+  updates: Array<{ id: string; completed: boolean }>
+): Promise<void> {
+  const supabase = createClient();
+
+  // One update per status value
+  for (const completed of [true, false]) {
+    const ids = updates.filter((u) => u.completed === completed).map((u) => u.id);
+    if (ids.length === 0) continue;
+
+    const { error } = await supabase
+      .from('tasks')
+      .update({ completed })
+      .in('id', ids);
+
+    if (error) {
+      console.error('Error updating task completion:', error);
+      throw error;
+    }
+  }
+}
+
 // Delete task - cascades to children via DB foreign key constraint
 export async function deleteTask(taskId: string): Promise<void> {
   const supabase = createClient();
@@ -159,27 +238,99 @@ export async function deleteTask(taskId: string): Promise<void> {
   }
 }
 
+// Rows for an in-memory subtree (parents before children), written with
+// restoreTasks: a new copy, or a deleted subtree put back by undo.
+// parentId is null for a root task.
+export function snapshotTaskTree(
+  projectId: string,
+  parentId: string | null,
+  task: TaskComponent
+): TaskSnapshot[] {
+  return breadthFirst(task)
+    .toArray()
+    .map(({ task: node, parent }) => ({
+      id: node.id,
+      projectId,
+      parentId: (parent ? parent.id : parentId) ?? undefined,
+      title: node.title,
+      completed: node.completed,
+      position: 0,
+      sortKey: node.sortKey,
+      tags: [],
+      assigneeIds: [],
+      blockedByIds: [],
+      ...pickMetadata(node),
+    }));
+}
+
+function toTaskRow(row: TaskSnapshot) {
+  return {
+    id: row.id,
+    project_id: row.projectId,
+    parent_id: row.parentId ?? null,
+    title: row.title,
+    completed: row.completed,
+    position: row.position,
+    // Rows without a key are appended after their siblings by the server
+    sort_key: row.sortKey ?? null,
+    ...toMetadataColumns(row),
+  };
+}
+
+// Re-insert a snapshotted subtree with its original ids (undo of a delete).
+// Upsert keeps it idempotent if the rows are already there.
+export async function restoreTasks(snapshot: TaskSnapshot[]): Promise<void> {
+  if (snapshot.length === 0) return;
+
+  const supabase = createClient();
+
+  const { error } = await supabase.from('tasks').upsert(snapshot.map(toTaskRow));
+
+  if (error) {
+    console.error('Error restoring tasks:', error);
+    throw error;
+  }
+}
+
 // Save command history for undo/redo functionality (Command pattern)
+// The full serialized command is stored so it can be rebuilt by the CommandRegistry
 export async function saveCommandHistory(
   projectId: string,
-  history: Array<{ description: string; timestamp: string }>
+  history: SerializableCommandHistory[]
 ): Promise<void> {
   const supabase = createClient();
   const { data: { user } } = await supabase.auth.getUser();
 
   if (!user) throw new Error('Not authenticated');
 
-  await supabase
+  // Each member keeps their own history: only this user's rows are replaced
+  const { error: deleteError } = await supabase
     .from('command_history')
     .delete()
-    .eq('project_id', projectId);
+    .eq('project_id', projectId)
+    .eq('user_id', user.id);
+
+  if (deleteError) {
+    console.error('Error clearing command history:', deleteError);
+    throw deleteError;
+  }
 
   if (history.length > 0) {
-    const entries = history.map((cmd) => ({
+    const entries = history.map((cmd, sequence) => ({
       project_id: projectId,
-      user_id: user!.id,
-      command_type: cmd.description,
-      command_data: { timestamp: cmd.timestamp },
+      user_id: user.id,
+      command_type: cmd.type,
+      command_data: {
+        description: cmd.description,
+        timestamp: cmd.timestamp,
+        data: cmd.data,
+        undone: cmd.undone ?? false,
+        // Undo tree: position of the parent command in this list, and
+        // whether redo follows this command from its parent
+        parent: cmd.parent ?? null,
+        active: cmd.active ?? false,
+        sequence,
+      },
     }));
 
     const { error } = await supabase
@@ -195,13 +346,19 @@ export async function saveCommandHistory(
 
 export async function loadCommandHistory(
   projectId: string
-): Promise<Array<{ description: string; timestamp: string }>> {
+): Promise<SerializableCommandHistory[]> {
   const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) return [];
 
+  // Other members' rows are readable too, but their parent indices
+  // refer to their own list
   const { data, error } = await supabase
     .from('command_history')
     .select('*')
     .eq('project_id', projectId)
+    .eq('user_id', user.id)
     .order('created_at', { ascending: true });
 
   if (error) {
@@ -209,10 +366,37 @@ export async function loadCommandHistory(
     return [];
   }
 
-  return data.map((entry) => ({
-    description: entry.command_type,
-    timestamp: entry.command_data?.timestamp || new Date().toISOString(),
-  }));
+  // Rows inserted in one batch share created_at, so keep the saved sequence
+  const rows = [...data].sort(
+    (a, b) => (a.command_data?.sequence ?? 0) - (b.command_data?.sequence ?? 0)
+  );
+
+  return rows.map((entry) => {
+    const commandData = entry.command_data || {};
+
+    // Legacy rows stored the description in command_type and no payload
+    if (commandData.description === undefined) {
+      return {
+        type: '',
+        description: entry.command_type,
+        timestamp: commandData.timestamp || new Date().toISOString(),
+        data: {},
+      };
+    }
+
+    return {
+      type: entry.command_type,
+      description: commandData.description,
+      timestamp: commandData.timestamp,
+      data: commandData.data || {},
+      undone: commandData.undone ?? false,
+      // Histories saved before the undo tree have no parent: they are linear
+      ...(commandData.parent !== undefined && {
+        parent: commandData.parent,
+        active: commandData.active ?? false,
+      }),
+    };
+  });
 }
 
 // Update task position for drag & drop reordering
@@ -230,19 +414,39 @@ export async function updateTaskPosition(taskId: string, position: number): Prom
   }
 }
 
-// Batch update positions for multiple tasks
-export async function reorderTasks(updates: Array<{ id: string; position: number }>): Promise<void> {
-  const supabase = createClient();
+export interface TaskPositionUpdate {
+  id: string;
+  sortKey?: string;
+  position?: number; // Legacy integer order
+  parentId?: string | null; // Also moves the task when set (null = root)
+}
 
-  const updatePromises = updates.map(({ id, position }) =>
-    supabase.from('tasks').update({ position }).eq('id', id)
-  );
+// Batch update ordering in one transaction through the reorder_tasks RPC
+// (see supabase/migrations/FRACTIONAL_SORT_KEYS.sql). Returns the new ordering.
+export async function reorderTasks(
+  updates: TaskPositionUpdate[]
+): Promise<Array<{ id: string; parentId?: string; sortKey: string }>> {
+  if (updates.length === 0) return [];
 
-  const results = await Promise.all(updatePromises);
+  const supabase = createClient();
 
-  const errors = results.filter((result) => result.error);
-  if (errors.length > 0) {
-    console.error('Error reordering tasks:', errors);
-    throw new Error('Failed to reorder tasks');
+  const { data, error } = await supabase.rpc('reorder_tasks', {
+    p_updates: updates.map(({ id, sortKey, position, parentId }) => ({
+      id,
+      ...(sortKey !== undefined && { sort_key: sortKey }),
+      ...(position !== undefined && { position }),
+      ...(parentId !== undefined && { parent_id: parentId }),
+    })),
+  });
+
+  if (error) {
+    console.error('Error reordering tasks:', error);
+    throw error;
   }
+
+  return (data || []).map((row: any) => ({
+    id: row.id,
+    parentId: row.parent_id ?? undefined,
+    sortKey: row.sort_key,
+  }));
 }
@@ -0,0 +1,142 @@
+/**
+ * Supabase Templates API - Save a project's task tree as a template
+ * and create new projects from it
+ */
+
+import { createClient } from './client';
+import { Project, ProjectTemplate, TemplateVisibility } from '@/lib/types';
+import { createProject, deleteProject } from './projects';
+import { restoreTasks, snapshotTaskTree } from './tasks';
+import { TaskGroup } from '@/patterns/composite/TaskGroup';
+import { parseTaskTree } from '@/patterns/composite/TaskSchema';
+import {
+  extractTemplateVariables,
+  instantiateTemplate,
+  toTemplateTree,
+} from '@/patterns/composite/TaskTemplate';
+
+function toProjectTemplate(row: any): ProjectTemplate {
+  // Stored trees are migrated and validated like any serialized tree
+  const parsed = parseTaskTree(row.tree);
+  const root = parsed instanceof TaskGroup ? parsed : new TaskGroup(row.id, row.name, false, [parsed]);
+
+  return {
+    id: row.id,
+    ownerId: row.owner_id,
+    sourceProjectId: row.source_project_id ?? undefined,
+    name: row.name,
+    description: row.description ?? undefined,
+    visibility: row.visibility,
+    root,
+    variables: extractTemplateVariables(root),
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Fetch the current user's templates and the ones shared with them
+ */
+export async function fetchTemplates(): Promise<ProjectTemplate[]> {
+  const supabase = createClient();
+
+  // RLS filters to owned + shared templates
+  const { data, error } = await supabase
+    .from('project_templates')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching templates:', error);
+    throw error;
+  }
+
+  return (data || []).flatMap((row: any) => {
+    try {
+      return [toProjectTemplate(row)];
+    } catch (err) {
+      console.error(`Skipping invalid template "${row.name}":`, err);
+      return [];
+    }
+  });
+}
+
+/**
+ * Save a project's task tree as a template
+ */
+export async function saveProjectAsTemplate(
+  project: Project,
+  name: string,
+  description: string | undefined,
+  visibility: TemplateVisibility
+): Promise<ProjectTemplate> {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) throw new Error('Not authenticated');
+
+  const { data, error } = await supabase
+    .from('project_templates')
+    .insert({
+      owner_id: user.id,
+      source_project_id: project.id,
+      name,
+      description,
+      visibility,
+      tree: toTemplateTree(project.root, name),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving template:', error);
+    throw error;
+  }
+
+  return toProjectTemplate(data);
+}
+
+/**
+ * Delete a template (owner only, enforced by RLS)
+ */
+export async function deleteTemplate(templateId: string): Promise<void> {
+  const supabase = createClient();
+
+  const { error } = await supabase
+    .from('project_templates')
+    .delete()
+    .eq('id', templateId);
+
+  if (error) {
+    console.error('Error deleting template:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a project and materialize the template's tree into fresh tasks rows,
+ * filling the {{name}} placeholders with `values`
+ */
+export async function createProjectFromTemplate(
+  template: ProjectTemplate,
+  name: string,
+  values: Record<string, string>,
+  description?: string
+): Promise<Project> {
+  const project = await createProject(name, description);
+
+  const root = instantiateTemplate(template.root, project.id, values, () =>
+    crypto.randomUUID()
+  );
+  root.title = project.name;
+
+  try {
+    // All rows in one upsert, parents before children
+    await restoreTasks(root.children.flatMap((task) => snapshotTaskTree(project.id, null, task)));
+  } catch (error) {
+    // Don't leave a half-created project behind
+    await deleteProject(project.id).catch(console.error);
+    throw error;
+  }
+
+  return { ...project, root, tasks: root.children };
+}
@@ -0,0 +1,14 @@
+// Command telemetry, reported by the logging and latency middlewares
+import type { CommandLatency, CommandTelemetry } from '@/patterns/command';
+
+export type TelemetryEvent =
+  | { kind: 'command'; event: CommandTelemetry }
+  | { kind: 'slow-command'; latency: CommandLatency };
+
+export type TelemetrySink = (event: TelemetryEvent) => void;
+
+// Telemetry is opt-in: nothing is recorded unless NEXT_PUBLIC_COMMAND_TELEMETRY=1
+export function getTelemetrySink(): TelemetrySink | null {
+  if (process.env.NEXT_PUBLIC_COMMAND_TELEMETRY !== '1') return null;
+  return (event) => console.info('[telemetry]', event);
+}
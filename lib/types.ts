@@ -3,7 +3,10 @@
  */
 
 // Ré-exporter les types des patterns pour éviter la duplication
-import type { TaskComponent } from '@/patterns/composite/TaskComponent';
+import type { TaskComponent, TaskPriority } from '@/patterns/composite/TaskComponent';
+import type { TaskGroup } from '@/patterns/composite/TaskGroup';
+import type { CompletionPolicy } from '@/patterns/composite/CompletionPolicy';
+import type { ProgressMode } from '@/patterns/composite/Progress';
 import type { Command } from '@/patterns/command/Command';
 import type { CommandManager, SerializableCommandHistory } from '@/patterns/command/CommandManager';
 
@@ -32,7 +35,10 @@ export interface Project {
   description?: string;
   ownerId: string;
   owner?: User; // Populated from join
-  tasks: TaskComponent[];
+  completionPolicy: CompletionPolicy; // How checking a task propagates to parents / children
+  historyLimit: number; // Commands kept in the undo history
+  root: TaskGroup; // Root container (id = project id), target of root-level commands
+  tasks: TaskComponent[]; // Same array as root.children
   members?: ProjectMember[]; // Populated from join
   createdAt: Date;
   updatedAt: Date;
@@ -52,6 +58,25 @@ export interface ProjectMember {
   acceptedAt?: Date;
 }
 
+// =============================================
+// PROJECT TEMPLATE TYPES
+// =============================================
+
+// 'shared': visible to everyone who owns or belongs to a project with the template owner
+export type TemplateVisibility = 'private' | 'shared';
+
+export interface ProjectTemplate {
+  id: string;
+  ownerId: string;
+  sourceProjectId?: string;
+  name: string;
+  description?: string;
+  visibility: TemplateVisibility;
+  root: TaskGroup; // Template tree (ids are placeholders)
+  variables: string[]; // {{name}} placeholders found in titles
+  createdAt: Date;
+}
+
 // =============================================
 // TASK TYPES (from Supabase)
 // =============================================
@@ -62,11 +87,26 @@ export interface TaskDB {
   parentId?: string;
   title: string;
   completed: boolean;
-  position: number;
+  position: number; // Legacy integer order, no longer maintained
+  sortKey: string; // Fractional ordering key (see lib/sortKey.ts)
+  dueDate?: string; // ISO date (YYYY-MM-DD)
+  priority?: TaskPriority;
+  description?: string; // Markdown
+  tags: string[];
+  assigneeIds: string[]; // Project members responsible for the task
+  estimate?: number; // Effort estimate (points or hours)
+  blockedByIds: string[]; // Tasks that must be completed first
+  recurrence?: string; // RRULE subset, e.g. FREQ=WEEKLY;BYDAY=MO
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Plain copy of a task row, used to restore deleted subtrees (JSON-serializable)
+// A snapshot without sortKey is appended after its siblings when it is restored
+export type TaskSnapshot = Omit<TaskDB, 'createdAt' | 'updatedAt' | 'sortKey'> & {
+  sortKey?: string;
+};
+
 // =============================================
 // COMMAND HISTORY (from Supabase)
 // =============================================
@@ -75,7 +115,8 @@ export interface CommandHistoryDB {
   id: string;
   projectId: string;
   userId: string;
-  description: string;
+  commandType: string; // Command type, key of the CommandRegistry
+  commandData: Record<string, any>; // Serialized command (description, timestamp, data, undone)
   createdAt: Date;
 }
 
@@ -93,6 +134,9 @@ export interface AppState {
 export interface Statistics {
   totalTasks: number;
   completedTasks: number;
+  totalEffort: number;
+  completedEffort: number;
+  mode: ProgressMode; // What percentage is based on
   percentage: number;
   totalProjects?: number;
   totalUsers?: number; // For admin dashboard
@@ -7,13 +7,148 @@
  * Principe : Séparer l'invocation d'une action de son exécution
  */
 
+import type { TaskGroup } from '../composite/TaskGroup';
+import type { TaskComponent } from '../composite/TaskComponent';
+import { depthFirst } from '../composite/TaskIterator';
+import type { CommandContext } from './CommandRegistry';
+
+/**
+ * Forme sérialisable d'une commande, stockée dans command_history.command_data.
+ * Le CommandRegistry reconstruit une vraie Command à partir de cet objet.
+ */
+export interface SerializedCommand {
+  type: string;
+  description: string;
+  timestamp: string;
+  data: Record<string, any>;
+}
+
 export interface Command {
 
-  execute(): void;
+  /**
+   * Applique la commande. La promesse est rejetée si la persistance échoue,
+   * auquel cas la modification en mémoire a déjà été annulée.
+   */
+  execute(): Promise<void>;
 
-  undo(): void;
+  undo(): Promise<void>;
 
   description: string;
 
   timestamp: Date;
+
+  /**
+   * Identifiant du type de commande (clé du CommandRegistry)
+   */
+  readonly type: string;
+
+  /**
+   * Convertit la commande en objet JSON sérialisable
+   */
+  serialize(): SerializedCommand;
+
+  /**
+   * Fusion (coalescing) : absorbe `next`, exécutée juste après, pour ne former
+   * qu'une entrée d'historique. Retourne false si les deux commandes ne sont pas
+   * compatibles. Après fusion, undo ramène toujours l'état d'avant cette commande.
+   */
+  merge?(next: Command): boolean;
+
+  /**
+   * true si, après fusion, la commande ne change plus rien
+   * (ex. une tâche cochée puis décochée)
+   */
+  isEmpty?(): boolean;
+
+  /**
+   * Titres que la commande écrit (création, renommage, copie),
+   * contrôlés par validationMiddleware avant l'exécution
+   */
+  getTitles?(): string[];
+}
+
+/**
+ * Applique une modification en mémoire puis attend sa persistance.
+ * Si la persistance échoue, la modification est annulée (rollback)
+ * et l'erreur est propagée.
+ */
+export async function applyWithRollback(
+  apply: () => void,
+  revert: () => void,
+  persist?: () => void | Promise<void>
+): Promise<void> {
+  apply();
+  try {
+    await persist?.();
+  } catch (error) {
+    revert();
+    throw error;
+  }
+}
+
+/**
+ * Titres d'une tâche et de tout son sous-arbre
+ */
+export function titlesOfTree(task: TaskComponent): string[] {
+  return depthFirst(task)
+    .toArray()
+    .map(({ task: node }) => node.title);
+}
+
+/**
+ * Tâche d'une commande reconstruite depuis l'historique : elle n'est cherchée
+ * dans l'arbre qu'au moment où la commande s'applique (une tâche supprimée plus
+ * loin dans l'historique réapparaît quand cette suppression est annulée).
+ */
+export interface PendingTask {
+  id: string;
+  resolve(): TaskComponent | null;
+}
+
+export type TaskTarget = TaskComponent | PendingTask;
+
+/**
+ * Tâche `taskId` d'une commande reconstruite, cherchée dans l'arbre courant
+ */
+export function pendingTask(context: CommandContext, taskId: string): PendingTask {
+  return { id: taskId, resolve: () => context.findTask(taskId) };
+}
+
+/**
+ * Tâche d'un TaskTarget si elle est dans l'arbre, sinon null
+ */
+export function peekTask(target: TaskTarget): TaskComponent | null {
+  return 'resolve' in target ? target.resolve() : target;
+}
+
+/**
+ * Tâche effective d'un TaskTarget ; lève une erreur si elle n'existe pas
+ */
+export function resolveTask(target: TaskTarget): TaskComponent {
+  const task = peekTask(target);
+  if (!task) throw new Error(`Task ${target.id} not found`);
+  return task;
+}
+
+/**
+ * Parent d'une commande qui n'est peut-être pas encore un groupe (feuille
+ * qui reçoit sa première sous-tâche) : il n'est promu en TaskGroup
+ * qu'au moment où la commande s'applique.
+ */
+export interface PendingGroup {
+  id: string;
+  resolve(): TaskGroup | null;
+}
+
+export type ParentGroup = TaskGroup | PendingGroup;
+
+/**
+ * Groupe effectif d'un ParentGroup ; lève une erreur si la tâche n'existe plus
+ */
+export function resolveGroup(parent: ParentGroup): TaskGroup {
+  if (!('resolve' in parent)) return parent;
+
+  const group = parent.resolve();
+  if (!group) throw new Error(`Parent task ${parent.id} not found`);
+  return group;
 }
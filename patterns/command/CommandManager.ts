@@ -1,110 +1,598 @@
-import { Command } from './Command';
+import { Command, SerializedCommand } from './Command';
+import { CommandContext, commandRegistry } from './CommandRegistry';
+import { CommandMiddleware, CommandRejectedError, runMiddlewares } from './CommandMiddleware';
+import { Observable } from '../observer/Observable';
 
-export interface SerializableCommandHistory {
+export interface SerializableCommandHistory extends SerializedCommand {
+  // true si la commande n'est pas sur le chemin de l'état courant
+  // (annulée, ou sur une autre branche) : elle reste disponible pour redo
+  undone?: boolean;
+  // Position de la commande parente dans la liste exportée (null : état initial).
+  // Absent dans les anciennes sauvegardes, qui forment une liste linéaire.
+  parent?: number | null;
+  // true si redo suit cette commande depuis sa parente
+  active?: boolean;
+}
+
+export type CommandAction = 'execute' | 'undo' | 'redo';
+
+/**
+ * Nombre de commandes gardées par défaut (réglable par projet)
+ */
+export const DEFAULT_HISTORY_SIZE = 20;
+
+/**
+ * Délai (ms) pendant lequel une commande peut absorber la suivante (voir Command.merge)
+ */
+export const COALESCE_WINDOW_MS = 3000;
+
+/**
+ * État de la dernière opération : en attente de persistance, ou en échec
+ * (la modification a alors été annulée et l'historique laissé intact)
+ */
+export interface CommandStatus {
+  state: 'idle' | 'pending' | 'failed';
+  action?: CommandAction;
+  description?: string;
+  error?: string;
+  // true si un middleware a refusé l'opération (rien n'a été appliqué)
+  rejected?: boolean;
+  // Étape en cours d'un déplacement dans l'historique (goTo, goToTime)
+  progress?: { step: number; total: number };
+}
+
+/**
+ * Nœud de l'arbre d'historique : une commande exécutée depuis l'état
+ * laissé par sa parente (null : l'état initial)
+ */
+interface HistoryNode {
+  id: number;
+  command: Command;
+  parent: HistoryNode | null;
+  children: HistoryNode[];
+  // Branche suivie par redo : la dernière exécutée ou visitée
+  activeChild: HistoryNode | null;
+  // Dernière exécution, fusions comprises
+  executedAt: number;
+}
+
+type HistoryBranches = Pick<HistoryNode, 'children' | 'activeChild'>;
+
+/**
+ * Position d'une entrée affichée par History :
+ * - saved : ancienne entrée en lecture seule
+ * - done / current : sur le chemin de l'état courant
+ * - redo : sur la branche active, après l'état courant
+ * - branch : sur une autre branche
+ */
+export type HistoryEntryState = 'saved' | 'done' | 'current' | 'redo' | 'branch';
+
+export interface HistoryEntry {
+  // null pour les entrées en lecture seule
+  id: number | null;
   description: string;
-  timestamp: string;
+  timestamp: Date;
+  state: HistoryEntryState;
+  // 0 pour la branche active, +1 à chaque embranchement
+  lane: number;
+}
+
+/**
+ * Commandes à annuler puis à rejouer pour atteindre une entrée
+ */
+export interface HistoryTravelPlan {
+  undo: ReadonlyArray<Command>;
+  redo: ReadonlyArray<Command>;
 }
 
-export class CommandManager {
-  private history: Command[] = [];
-  private currentIndex: number = -1;
-  private readonly maxHistorySize: number = 20;
+/**
+ * PATTERN COMMAND - Historique en arbre
+ *
+ * Exécuter une commande après des undo ne supprime plus les commandes
+ * annulées : elle ouvre une nouvelle branche à partir de l'état courant.
+ * On peut revenir sur n'importe quelle branche ou à un instant donné :
+ * le manager annule jusqu'à l'ancêtre commun puis rejoue jusqu'à la cible.
+ *
+ * Une commande exécutée peu après une commande compatible est fusionnée
+ * avec elle (coalescing) au lieu d'ajouter une entrée.
+ *
+ * Chaque execute / undo / redo traverse les middlewares installés
+ * (droits, validation, journalisation...), voir CommandMiddleware.
+ */
+export class CommandManager extends Observable<CommandStatus> {
+  // Enfants de l'état initial
+  private root: HistoryBranches = { children: [], activeChild: null };
+  // Tous les nœuds, du plus ancien au plus récent
+  private nodes: HistoryNode[] = [];
+  private current: HistoryNode | null = null;
+  private nextId = 1;
   private savedHistory: SerializableCommandHistory[] = [];
+  private status: CommandStatus = { state: 'idle' };
+  // Les opérations sont exécutées l'une après l'autre
+  private queue: Promise<unknown> = Promise.resolve();
+  private middlewares: CommandMiddleware[] = [];
 
-  execute(command: Command): void {
-    command.execute();
+  constructor(private maxHistorySize: number = DEFAULT_HISTORY_SIZE) {
+    super();
+  }
 
-    if (this.currentIndex < this.history.length - 1) {
-      this.history = this.history.slice(0, this.currentIndex + 1);
-    }
+  getMaxHistorySize(): number {
+    return this.maxHistorySize;
+  }
 
-    this.history.push(command);
-    this.currentIndex++;
+  /**
+   * Réduire la limite retire aussitôt les commandes les plus anciennes
+   */
+  setMaxHistorySize(size: number): void {
+    this.maxHistorySize = Math.max(1, Math.floor(size));
+    this.prune();
+    this.notify(this.status);
+  }
 
-    if (this.history.length > this.maxHistorySize) {
-      this.history.shift();
-      this.currentIndex--;
-    }
+  /**
+   * Remplace la chaîne de middlewares (le premier est le plus extérieur)
+   */
+  setMiddlewares(middlewares: CommandMiddleware[]): void {
+    this.middlewares = [...middlewares];
   }
 
-  undo(): boolean {
-    if (!this.canUndo()) return false;
+  /**
+   * Ajoute un middleware en fin de chaîne ; retourne une fonction qui le retire
+   */
+  use(middleware: CommandMiddleware): () => void {
+    this.middlewares.push(middleware);
+    return () => {
+      this.middlewares = this.middlewares.filter((other) => other !== middleware);
+    };
+  }
+
+  execute(command: Command): Promise<boolean> {
+    return this.enqueue(async () => {
+      const done = await this.step('execute', command, undefined, async () => {
+        await command.execute();
+        if (!this.coalesce(command)) {
+          this.current = this.addNode(command, this.current);
+        }
+        this.prune();
+      });
+      if (done) this.setStatus({ state: 'idle' });
+      return done;
+    });
+  }
 
-    const command = this.history[this.currentIndex];
-    command.undo();
-    this.currentIndex--;
+  undo(): Promise<boolean> {
+    return this.enqueue(async () => {
+      if (!this.current) return false;
+      return this.travel(this.current.parent);
+    });
+  }
+
+  redo(): Promise<boolean> {
+    return this.enqueue(async () => {
+      const next = this.childrenOf(this.current).activeChild;
+      if (!next) return false;
+      return this.travel(next);
+    });
+  }
 
+  /**
+   * Ramène le projet à l'état qui suit la commande `id`, sur n'importe
+   * quelle branche (null : l'état initial). Cette branche devient celle de redo.
+   */
+  goTo(id: number | null): Promise<boolean> {
+    return this.enqueue(async () => {
+      const target = id === null ? null : this.findNode(id);
+      if (id !== null && !target) return false;
+      return this.travel(target);
+    });
+  }
+
+  /**
+   * Aperçu de goTo(id) : ce qui serait annulé puis rejoué,
+   * ou null si l'entrée n'existe plus
+   */
+  planGoTo(id: number | null): HistoryTravelPlan | null {
+    const target = id === null ? null : this.findNode(id);
+    if (id !== null && !target) return null;
+
+    const { undo, redo } = this.route(target);
+    return {
+      undo: undo.map((node) => node.command),
+      redo: redo.map((node) => node.command),
+    };
+  }
+
+  /**
+   * Ramène le projet à son état à l'instant `time` : après la dernière
+   * commande exécutée avant cet instant, toutes branches confondues
+   */
+  goToTime(time: Date): Promise<boolean> {
+    return this.enqueue(async () => {
+      // nodes suit l'ordre de création, pas celui des timestamps (historique rechargé, fusions)
+      const latest = this.nodes.reduce<HistoryNode | null>(
+        (found, node) =>
+          node.command.timestamp <= time &&
+          (!found || node.command.timestamp >= found.command.timestamp)
+            ? node
+            : found,
+        null
+      );
+      return this.travel(latest);
+    });
+  }
+
+  /**
+   * Annule jusqu'à l'ancêtre commun avec la cible, puis rejoue jusqu'à elle.
+   * Un échec arrête le parcours : l'historique reste sur le dernier état atteint.
+   * Résout à false si rien n'a été fait ou si la persistance a échoué.
+   */
+  private async travel(target: HistoryNode | null): Promise<boolean> {
+    if (target === this.current) return false;
+
+    const { undo, redo } = this.route(target);
+    const total = undo.length + redo.length;
+    const progress = (done: number) => (total > 1 ? { step: done + 1, total } : undefined);
+
+    for (let i = 0; i < undo.length; i++) {
+      const node = undo[i];
+      const undone = await this.step('undo', node.command, progress(i), async () => {
+        await node.command.undo();
+        this.current = node.parent;
+      });
+      if (!undone) return false;
+    }
+
+    for (let i = 0; i < redo.length; i++) {
+      const node = redo[i];
+      const redone = await this.step('redo', node.command, progress(undo.length + i), async () => {
+        await node.command.execute();
+        this.childrenOf(node.parent).activeChild = node;
+        this.current = node;
+      });
+      if (!redone) return false;
+    }
+
+    this.setStatus({ state: 'idle' });
     return true;
   }
 
-  redo(): boolean {
-    if (!this.canRedo()) return false;
+  /**
+   * Nœuds à annuler (du plus récent au plus ancien) jusqu'à l'ancêtre
+   * commun avec la cible, puis nœuds à rejouer jusqu'à elle
+   */
+  private route(target: HistoryNode | null): { undo: HistoryNode[]; redo: HistoryNode[] } {
+    const currentPath = this.pathTo(this.current);
+    const targetPath = this.pathTo(target);
+
+    let common = 0;
+    while (common < currentPath.length && currentPath[common] === targetPath[common]) {
+      common++;
+    }
+
+    return {
+      undo: currentPath.slice(common).reverse(),
+      redo: targetPath.slice(common),
+    };
+  }
 
-    this.currentIndex++;
-    const command = this.history[this.currentIndex];
-    command.execute();
+  /**
+   * Fusionne la commande qui vient d'être exécutée dans la commande courante,
+   * si celle-ci est récente, n'a pas de branche et l'accepte. Une commande
+   * devenue vide (ex. tâche cochée puis décochée) est retirée de l'historique.
+   */
+  private coalesce(command: Command): boolean {
+    const node = this.current;
+    const now = Date.now();
+    if (!node?.command.merge || node.children.length > 0) return false;
+    if (now - node.executedAt > COALESCE_WINDOW_MS) return false;
+    if (!node.command.merge(command)) return false;
 
+    // L'entrée fusionnée date de sa dernière modification (goToTime, affichage)
+    node.command.timestamp = command.timestamp;
+    node.executedAt = now;
+    if (node.command.isEmpty?.()) {
+      const siblings = this.childrenOf(node.parent);
+      siblings.children = siblings.children.filter((child) => child !== node);
+      siblings.activeChild = null;
+      this.nodes = this.nodes.filter((other) => other !== node);
+      this.current = node.parent;
+    }
     return true;
   }
 
+  /**
+   * Met l'opération en file d'attente : elles s'exécutent l'une après l'autre
+   */
+  private enqueue(operation: () => Promise<boolean>): Promise<boolean> {
+    const result = this.queue.then(operation);
+    this.queue = result;
+    return result;
+  }
+
+  /**
+   * Exécute une étape à travers les middlewares en publiant son état.
+   * Résout à false (état « failed ») si un middleware l'a refusée
+   * ou si la persistance a échoué.
+   */
+  private async step(
+    action: CommandAction,
+    command: Command,
+    progress: CommandStatus['progress'],
+    operation: () => Promise<void>
+  ): Promise<boolean> {
+    this.setStatus({ state: 'pending', action, description: command.description, progress });
+    try {
+      await runMiddlewares(this.middlewares, { action, command }, operation);
+      return true;
+    } catch (error: any) {
+      const rejected = error instanceof CommandRejectedError;
+      if (!rejected) console.error(`Command ${action} failed:`, error);
+      this.setStatus({
+        state: 'failed',
+        action,
+        description: command.description,
+        error: error?.message || String(error),
+        rejected,
+        progress,
+      });
+      return false;
+    }
+  }
+
+  private addNode(command: Command, parent: HistoryNode | null): HistoryNode {
+    const node: HistoryNode = {
+      id: this.nextId++,
+      command,
+      parent,
+      children: [],
+      activeChild: null,
+      executedAt: Date.now(),
+    };
+    const siblings = this.childrenOf(parent);
+    siblings.children.push(node);
+    siblings.activeChild = node;
+    this.nodes.push(node);
+    return node;
+  }
+
+  private childrenOf(node: HistoryNode | null): HistoryBranches {
+    return node ?? this.root;
+  }
+
+  private findNode(id: number): HistoryNode | null {
+    return this.nodes.find((node) => node.id === id) ?? null;
+  }
+
+  /**
+   * Nœuds de l'état initial jusqu'à `node` inclus
+   */
+  private pathTo(node: HistoryNode | null): HistoryNode[] {
+    const path: HistoryNode[] = [];
+    for (let step = node; step; step = step.parent) {
+      path.unshift(step);
+    }
+    return path;
+  }
+
+  /**
+   * Au-delà de maxHistorySize, la plus ancienne commande est retirée.
+   * Sur le chemin courant, elle devient une entrée en lecture seule et les
+   * autres branches parties de l'état initial, devenu inaccessible, sont perdues ;
+   * sinon sa branche entière est abandonnée.
+   */
+  private prune(): void {
+    while (this.nodes.length > this.maxHistorySize) {
+      const oldest = this.root.children[0];
+
+      if (this.pathTo(this.current).includes(oldest)) {
+        this.savedHistory.push({ ...oldest.command.serialize(), undone: false });
+        oldest.children.forEach((child) => (child.parent = null));
+        this.root = { children: oldest.children, activeChild: oldest.activeChild };
+        if (this.current === oldest) this.current = null;
+      } else {
+        this.root.children.shift();
+        if (this.root.activeChild === oldest) {
+          this.root.activeChild = this.root.children[this.root.children.length - 1] ?? null;
+        }
+      }
+
+      // Les nœuds dont la branche a été détachée de l'état initial
+      this.nodes = this.nodes.filter((node) => this.root.children.includes(this.pathTo(node)[0]));
+    }
+  }
+
+  private setStatus(status: CommandStatus): void {
+    this.status = status;
+    this.notify(status);
+  }
+
+  getStatus(): CommandStatus {
+    return this.status;
+  }
+
+  isPending(): boolean {
+    return this.status.state === 'pending';
+  }
+
+  dismissError(): void {
+    if (this.status.state === 'failed') {
+      this.setStatus({ state: 'idle' });
+    }
+  }
+
   canUndo(): boolean {
-    return this.currentIndex >= 0;
+    return this.current !== null;
   }
 
   canRedo(): boolean {
-    return this.currentIndex < this.history.length - 1;
+    return this.childrenOf(this.current).activeChild !== null;
   }
 
+  /**
+   * Commandes de la branche active, de l'état initial à sa dernière commande
+   */
   getHistory(): ReadonlyArray<Command> {
-    return this.history;
+    const history: Command[] = [];
+    for (let node = this.root.activeChild; node; node = node.activeChild) {
+      history.push(node.command);
+    }
+    return history;
   }
 
   getRecentHistory(count: number = 10): ReadonlyArray<Command> {
-    return this.history.slice(-count);
-  }
-
-  getFullHistoryForDisplay(count: number = 10): Array<{
-    description: string;
-    timestamp: Date;
-    canUndo: boolean;
-    index: number;
-  }> {
-    const saved = this.savedHistory.map((cmd, idx) => ({
-      description: cmd.description,
-      timestamp: new Date(cmd.timestamp),
-      canUndo: false,
-      index: idx - this.savedHistory.length
-    }));
+    return this.getHistory().slice(-count);
+  }
 
-    const current = this.history.map((cmd, idx) => ({
-      description: cmd.description,
-      timestamp: cmd.timestamp,
-      canUndo: true,
-      index: idx
+  /**
+   * Entrées à afficher, de la plus ancienne à la plus récente (les `count`
+   * dernières, ou toutes). La branche active est sur la voie 0 ; chaque autre
+   * branche est listée juste après la commande dont elle part, une voie plus à droite.
+   */
+  getFullHistoryForDisplay(count?: number): HistoryEntry[] {
+    const saved: HistoryEntry[] = this.savedHistory.map((entry) => ({
+      id: null,
+      description: entry.description,
+      timestamp: new Date(entry.timestamp),
+      state: 'saved',
+      lane: 0,
     }));
 
-    const all = [...saved, ...current];
-    return all.slice(-count);
+    const currentPath = this.pathTo(this.current);
+    const entries: HistoryEntry[] = [];
+
+    const visit = (from: HistoryBranches, lane: number, onActiveBranch: boolean) => {
+      const next = from.activeChild ?? from.children[from.children.length - 1] ?? null;
+
+      from.children
+        .filter((child) => child !== next)
+        .forEach((child) => addNode(child, lane + 1, false));
+      if (next) addNode(next, lane, onActiveBranch && next === from.activeChild);
+    };
+
+    const addNode = (node: HistoryNode, lane: number, onActiveBranch: boolean) => {
+      entries.push({
+        id: node.id,
+        description: node.command.description,
+        timestamp: node.command.timestamp,
+        state:
+          node === this.current
+            ? 'current'
+            : currentPath.includes(node)
+              ? 'done'
+              : onActiveBranch
+                ? 'redo'
+                : 'branch',
+        lane,
+      });
+      visit(node, lane, onActiveBranch);
+    };
+
+    visit(this.root, 0, true);
+
+    const all = [...saved, ...entries];
+    return count === undefined ? all : all.slice(-count);
   }
 
   clear(): void {
-    this.history = [];
-    this.currentIndex = -1;
+    this.root = { children: [], activeChild: null };
+    this.nodes = [];
+    this.current = null;
   }
 
+  /**
+   * Position de l'état courant sur la branche active (-1 : état initial)
+   */
   getCurrentIndex(): number {
-    return this.currentIndex;
+    return this.pathTo(this.current).length - 1;
+  }
+
+  /**
+   * Identifiant de la commande courante (null : état initial)
+   */
+  getCurrentId(): number | null {
+    return this.current?.id ?? null;
   }
 
+  /**
+   * Entrées en lecture seule puis commandes de l'arbre, chaque commande
+   * après sa parente : `parent` désigne une position dans la liste exportée
+   */
   exportHistory(): SerializableCommandHistory[] {
-    return this.history.map(cmd => ({
-      description: cmd.description,
-      timestamp: cmd.timestamp.toISOString()
+    const saved = this.savedHistory.map((entry, index) => ({
+      ...entry,
+      undone: false,
+      parent: index > 0 ? index - 1 : null,
+      active: true,
+    }));
+
+    const rootParent = saved.length > 0 ? saved.length - 1 : null;
+    const currentPath = this.pathTo(this.current);
+    const current = this.nodes.map((node) => ({
+      ...node.command.serialize(),
+      undone: !currentPath.includes(node),
+      parent: node.parent ? saved.length + this.nodes.indexOf(node.parent) : rootParent,
+      active: this.childrenOf(node.parent).activeChild === node,
     }));
+
+    return [...saved, ...current];
   }
 
-  importHistory(savedHistory: SerializableCommandHistory[]): void {
-    this.savedHistory = savedHistory;
+  /**
+   * Reconstruit l'arbre grâce au CommandRegistry.
+   * Si une commande du chemin courant ne peut pas être reconstruite, elle et
+   * celles qui la précèdent restent en lecture seule dans savedHistory, et
+   * seules les branches parties d'elle sont conservées. Les autres commandes
+   * impossibles à reconstruire sont abandonnées avec leur branche.
+   */
+  importHistory(savedHistory: SerializableCommandHistory[], context?: CommandContext): void {
+    this.clear();
+    this.savedHistory = [];
+
+    // Les anciennes sauvegardes forment une liste linéaire
+    const parentIndex = (index: number): number => {
+      const parent = savedHistory[index].parent;
+      return parent === undefined ? index - 1 : parent ?? -1;
+    };
+    const isActive = (entry: SerializableCommandHistory) =>
+      entry.parent === undefined || entry.active === true;
+
+    // La commande courante est la plus profonde qui n'est pas « undone »
+    const currentPath: number[] = [];
+    let index = savedHistory.map((entry) => !entry.undone).lastIndexOf(true);
+    for (; index >= 0; index = parentIndex(index)) {
+      currentPath.unshift(index);
+    }
+
+    const rebuilt = savedHistory.map((entry) =>
+      context ? commandRegistry.deserialize(entry, context) : null
+    );
+
+    const cutPosition = currentPath.map((index) => rebuilt[index]).lastIndexOf(null);
+    const cut = cutPosition >= 0 ? currentPath[cutPosition] : -1;
+    this.savedHistory = currentPath.slice(0, cutPosition + 1).map((index) => savedHistory[index]);
+
+    const nodeAt = new Map<number, HistoryNode>();
+    savedHistory.forEach((entry, index) => {
+      const command = rebuilt[index];
+      const parent = parentIndex(index);
+      if (!command || index <= cut || (parent !== cut && !nodeAt.has(parent))) return;
+
+      const parentNode = nodeAt.get(parent) ?? null;
+      const siblings = this.childrenOf(parentNode);
+      const previous = siblings.activeChild;
+      const node = this.addNode(command, parentNode);
+      node.executedAt = command.timestamp.getTime();
+      if (!isActive(entry) && previous) siblings.activeChild = previous;
+      nodeAt.set(index, node);
+    });
+
+    // Redo doit suivre le chemin courant
+    this.current = nodeAt.get(currentPath[currentPath.length - 1]) ?? null;
+    for (let node = this.current; node; node = node.parent) {
+      this.childrenOf(node.parent).activeChild = node;
+    }
+
+    this.prune();
   }
 
   getSavedHistory(): SerializableCommandHistory[] {
@@ -0,0 +1,166 @@
+/**
+ * PATTERN COMMAND (Chain of Responsibility) - Middlewares
+ *
+ * Chaque execute / undo / redo du CommandManager traverse une chaîne
+ * d'intercepteurs. Un middleware peut agir avant et après l'opération
+ * (journalisation, mesure), ou la refuser en levant une CommandRejectedError
+ * sans appeler `next` : la commande n'est alors pas appliquée.
+ */
+
+import { Command } from './Command';
+import type { CommandAction } from './CommandManager';
+import { MacroCommand } from './commands/MacroCommand';
+
+export interface CommandInvocation {
+  action: CommandAction;
+  command: Command;
+}
+
+export type CommandMiddleware = (
+  invocation: CommandInvocation,
+  next: () => Promise<void>
+) => Promise<void>;
+
+/**
+ * Commande refusée par un middleware (droits, validation)
+ */
+export class CommandRejectedError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'CommandRejectedError';
+  }
+}
+
+/**
+ * Exécute l'opération à travers la chaîne : le premier middleware
+ * est le plus extérieur
+ */
+export function runMiddlewares(
+  middlewares: ReadonlyArray<CommandMiddleware>,
+  invocation: CommandInvocation,
+  operation: () => Promise<void>
+): Promise<void> {
+  const dispatch = (index: number): Promise<void> =>
+    index < middlewares.length
+      ? middlewares[index](invocation, () => dispatch(index + 1))
+      : operation();
+  return dispatch(0);
+}
+
+/**
+ * Droits : refuse toute opération (undo et redo compris, qui modifient
+ * aussi les tâches) si `canEdit` retourne false, ex. pour un viewer
+ */
+export function permissionMiddleware(canEdit: () => boolean): CommandMiddleware {
+  return async ({ action, command }, next) => {
+    if (!canEdit()) {
+      throw new CommandRejectedError(
+        `You do not have permission to ${action} "${command.description}"`
+      );
+    }
+    await next();
+  };
+}
+
+export const MAX_TITLE_LENGTH = 200;
+
+/**
+ * Message d'erreur pour un titre invalide, ou null s'il est correct
+ */
+export function validateTitle(title: string): string | null {
+  if (!title.trim()) return 'Task title cannot be empty';
+  if (title.length > MAX_TITLE_LENGTH) {
+    return `Task title cannot be longer than ${MAX_TITLE_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Validation des titres qu'écrit une nouvelle commande (voir Command.getTitles).
+ * Les étapes d'une macro construites pendant son exécution sont contrôlées
+ * à leur tour. Undo et redo ne sont pas vérifiés : ils ramènent à un état
+ * déjà accepté.
+ */
+export function validationMiddleware(): CommandMiddleware {
+  return async ({ action, command }, next) => {
+    if (action === 'execute') {
+      checkTitles(command);
+      if (command instanceof MacroCommand) command.addStepCheck(checkTitles);
+    }
+    await next();
+  };
+}
+
+function checkTitles(command: Command): void {
+  const error = (command.getTitles?.() ?? [])
+    .map(validateTitle)
+    .find((message) => message !== null);
+  if (error) throw new CommandRejectedError(error);
+}
+
+/**
+ * Événement de télémétrie émis pour chaque opération
+ */
+export interface CommandTelemetry {
+  action: CommandAction;
+  type: string;
+  description: string;
+  outcome: 'ok' | 'rejected' | 'failed';
+  error?: string;
+  timestamp: string;
+}
+
+/**
+ * Journalisation structurée : un événement par opération, réussie ou non,
+ * envoyé au puits de télémétrie `log`. À placer en tête de chaîne pour voir
+ * aussi les refus.
+ */
+export function loggingMiddleware(log: (event: CommandTelemetry) => void): CommandMiddleware {
+  return async ({ action, command }, next) => {
+    const event = {
+      action,
+      type: command.type,
+      description: command.description,
+      timestamp: new Date().toISOString(),
+    };
+    try {
+      await next();
+      log({ ...event, outcome: 'ok' });
+    } catch (error: any) {
+      log({
+        ...event,
+        outcome: error instanceof CommandRejectedError ? 'rejected' : 'failed',
+        error: error?.message || String(error),
+      });
+      throw error;
+    }
+  };
+}
+
+export interface CommandLatency {
+  action: CommandAction;
+  type: string;
+  durationMs: number;
+  failed: boolean;
+}
+
+/**
+ * Mesure la durée de chaque opération (persistance comprise)
+ */
+export function latencyMiddleware(
+  report: (sample: CommandLatency) => void,
+  now: () => number = () => Date.now()
+): CommandMiddleware {
+  return async ({ action, command }, next) => {
+    const start = now();
+    let failed = false;
+    try {
+      await next();
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      report({ action, type: command.type, durationMs: now() - start, failed });
+    }
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * PATTERN COMMAND - Registre des commandes
+ *
+ * Associe chaque type de commande à une fabrique capable de reconstruire
+ * une Command à partir de sa forme sérialisée (historique chargé depuis Supabase).
+ */
+
+import { Command, ParentGroup, SerializedCommand } from './Command';
+import { TaskComponent } from '../composite/TaskComponent';
+import { TaskGroup } from '../composite/TaskGroup';
+import { AddDependencyCommand } from './commands/AddDependencyCommand';
+import { AssignTaskCommand } from './commands/AssignTaskCommand';
+import { CreateOccurrenceCommand } from './commands/CreateOccurrenceCommand';
+import { CreateTaskCommand } from './commands/CreateTaskCommand';
+import { DeleteTaskCommand } from './commands/DeleteTaskCommand';
+import { DuplicateTaskCommand } from './commands/DuplicateTaskCommand';
+import { EditTaskCommand } from './commands/EditTaskCommand';
+import { MacroCommand } from './commands/MacroCommand';
+import { MoveTaskCommand } from './commands/MoveTaskCommand';
+import { RemoveDependencyCommand } from './commands/RemoveDependencyCommand';
+import { ToggleStatusCommand } from './commands/ToggleStatusCommand';
+import { UpdateTaskMetadataCommand } from './commands/UpdateTaskMetadataCommand';
+
+export interface CommandCallbacks {
+  onExecute?: () => void | Promise<void>;
+  onUndo?: () => void | Promise<void>;
+}
+
+/**
+ * Ce dont une fabrique a besoin pour relier une commande
+ * à l'arbre de tâches courant et à la persistance
+ */
+export interface CommandContext {
+  getRoot(): TaskGroup;
+  findTask(taskId: string): TaskComponent | null;
+  /**
+   * Parent `taskId`, résolu seulement quand la commande s'applique : reconstruire
+   * l'historique ne promeut pas de feuille en groupe, et le parent peut ne pas
+   * exister encore (voir PendingTask)
+   */
+  findGroup(taskId: string): ParentGroup;
+  getCallbacks(type: string, data: Record<string, any>): CommandCallbacks;
+}
+
+export type CommandFactory = (
+  serialized: SerializedCommand,
+  context: CommandContext
+) => Command | null;
+
+export class CommandRegistry {
+  private factories = new Map<string, CommandFactory>();
+
+  register(type: string, factory: CommandFactory): this {
+    this.factories.set(type, factory);
+    return this;
+  }
+
+  has(type: string): boolean {
+    return this.factories.has(type);
+  }
+
+  /**
+   * Reconstruit une commande. Retourne null si le type est inconnu ou si la
+   * forme sérialisée est illisible ; les tâches référencées ne sont cherchées
+   * qu'à l'exécution.
+   */
+  deserialize(serialized: SerializedCommand, context: CommandContext): Command | null {
+    const factory = this.factories.get(serialized.type);
+    if (!factory) return null;
+
+    try {
+      const command = factory(serialized, context);
+      if (!command) return null;
+
+      command.description = serialized.description;
+      command.timestamp = new Date(serialized.timestamp);
+      return command;
+    } catch (error) {
+      console.error(`Error rebuilding command "${serialized.type}":`, error);
+      return null;
+    }
+  }
+}
+
+export const commandRegistry: CommandRegistry = new CommandRegistry()
+  .register(AddDependencyCommand.TYPE, AddDependencyCommand.fromJSON)
+  .register(AssignTaskCommand.TYPE, AssignTaskCommand.fromJSON)
+  .register(CreateOccurrenceCommand.TYPE, CreateOccurrenceCommand.fromJSON)
+  .register(CreateTaskCommand.TYPE, CreateTaskCommand.fromJSON)
+  .register(DeleteTaskCommand.TYPE, DeleteTaskCommand.fromJSON)
+  .register(DuplicateTaskCommand.TYPE, DuplicateTaskCommand.fromJSON)
+  .register(EditTaskCommand.TYPE, EditTaskCommand.fromJSON)
+  .register(MacroCommand.TYPE, (serialized, context) =>
+    MacroCommand.fromJSON(serialized, context, commandRegistry)
+  )
+  .register(MoveTaskCommand.TYPE, MoveTaskCommand.fromJSON)
+  .register(RemoveDependencyCommand.TYPE, RemoveDependencyCommand.fromJSON)
+  .register(ToggleStatusCommand.TYPE, ToggleStatusCommand.fromJSON)
+  .register(UpdateTaskMetadataCommand.TYPE, UpdateTaskMetadataCommand.fromJSON);
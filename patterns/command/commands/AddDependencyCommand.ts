@@ -0,0 +1,91 @@
+import {
+  Command,
+  SerializedCommand,
+  TaskTarget,
+  applyWithRollback,
+  peekTask,
+  pendingTask,
+  resolveTask,
+} from '../Command';
+import type { CommandContext } from '../CommandRegistry';
+import { TaskGroup } from '../../composite/TaskGroup';
+import { DependencyCycleError, wouldCreateCycle } from '../../composite/Dependencies';
+
+/**
+ * Ajoute la dépendance "task est bloquée par blocker".
+ * L'exécution échoue (DependencyCycleError) si elle créerait un cycle.
+ */
+export class AddDependencyCommand implements Command {
+  static readonly TYPE = 'ADD_DEPENDENCY';
+
+  readonly type = AddDependencyCommand.TYPE;
+  description: string;
+  timestamp: Date;
+
+  constructor(
+    private root: TaskGroup,
+    private task: TaskTarget,
+    private blocker: TaskTarget,
+    private onExecute?: () => void | Promise<void>,
+    private onUndo?: () => void | Promise<void>
+  ) {
+    const title = peekTask(task)?.title ?? '';
+    this.description = `Block "${title}" by "${peekTask(blocker)?.title ?? ''}"`;
+    this.timestamp = new Date();
+  }
+
+  private add(): void {
+    const task = resolveTask(this.task);
+    const blocker = resolveTask(this.blocker);
+    if (wouldCreateCycle(this.root, task.id, blocker.id)) {
+      throw new DependencyCycleError(task, blocker);
+    }
+    task.blockedByIds = [...(task.blockedByIds ?? []), blocker.id];
+  }
+
+  private remove(): void {
+    const task = resolveTask(this.task);
+    const blockedByIds = (task.blockedByIds ?? []).filter((id) => id !== this.blocker.id);
+    task.blockedByIds = blockedByIds.length > 0 ? blockedByIds : undefined;
+  }
+
+  execute(): Promise<void> {
+    return applyWithRollback(
+      () => this.add(),
+      () => this.remove(),
+      this.onExecute
+    );
+  }
+
+  undo(): Promise<void> {
+    return applyWithRollback(
+      () => this.remove(),
+      () => this.add(),
+      this.onUndo
+    );
+  }
+
+  serialize(): SerializedCommand {
+    return {
+      type: this.type,
+      description: this.description,
+      timestamp: this.timestamp.toISOString(),
+      data: {
+        taskId: this.task.id,
+        blockerId: this.blocker.id,
+      },
+    };
+  }
+
+  static fromJSON(serialized: SerializedCommand, context: CommandContext): AddDependencyCommand | null {
+    const { data } = serialized;
+    const { onExecute, onUndo } = context.getCallbacks(AddDependencyCommand.TYPE, data);
+    return new AddDependencyCommand(
+      context.getRoot(),
+      pendingTask(context, data.taskId),
+      pendingTask(context, data.blockerId),
+      onExecute,
+      onUndo
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import {
+  Command,
+  SerializedCommand,
+  TaskTarget,
+  applyWithRollback,
+  peekTask,
+  pendingTask,
+  resolveTask,
+} from '../Command';
+import type { CommandContext } from '../CommandRegistry';
+
+/**
+ * Remplace la liste des membres assignés à une tâche
+ */
+export class AssignTaskCommand implements Command {
+  static readonly TYPE = 'ASSIGN_TASK';
+
+  readonly type = AssignTaskCommand.TYPE;
+  description: string;
+  timestamp: Date;
+  private oldAssigneeIds: string[];
+
+  constructor(
+    private task: TaskTarget,
+    private newAssigneeIds: string[],
+    private onExecute?: () => void | Promise<void>,
+    private onUndo?: () => void | Promise<void>
+  ) {
+    const current = peekTask(task);
+    const title = current?.title ?? '';
+    this.oldAssigneeIds = [...(current?.assigneeIds ?? [])];
+
+    const added = newAssigneeIds.filter((id) => !this.oldAssigneeIds.includes(id)).length;
+    const removed = this.oldAssigneeIds.filter((id) => !newAssigneeIds.includes(id)).length;
+    const members = (count: number) => `${count} ${count === 1 ? 'member' : 'members'}`;
+
+    if (removed === 0) {
+      this.description = `Assign "${title}" to ${members(added)}`;
+    } else if (added === 0) {
+      this.description = `Unassign ${members(removed)} from "${title}"`;
+    } else {
+      this.description = `Change assignees of "${title}"`;
+    }
+    this.timestamp = new Date();
+  }
+
+  private assign(assigneeIds: string[]): void {
+    resolveTask(this.task).assigneeIds = assigneeIds.length > 0 ? [...assigneeIds] : undefined;
+  }
+
+  /**
+   * true si les membres assignés restent les mêmes (dans un autre ordre éventuellement)
+   */
+  isEmpty(): boolean {
+    return (
+      this.newAssigneeIds.length === this.oldAssigneeIds.length &&
+      this.newAssigneeIds.every((id) => this.oldAssigneeIds.includes(id))
+    );
+  }
+
+  execute(): Promise<void> {
+    return applyWithRollback(
+      () => this.assign(this.newAssigneeIds),
+      () => this.assign(this.oldAssigneeIds),
+      this.onExecute
+    );
+  }
+
+  undo(): Promise<void> {
+    return applyWithRollback(
+      () => this.assign(this.oldAssigneeIds),
+      () => this.assign(this.newAssigneeIds),
+      this.onUndo
+    );
+  }
+
+  serialize(): SerializedCommand {
+    return {
+      type: this.type,
+      description: this.description,
+      timestamp: this.timestamp.toISOString(),
+      data: {
+        taskId: this.task.id,
+        oldAssigneeIds: this.oldAssigneeIds,
+        newAssigneeIds: this.newAssigneeIds,
+      },
+    };
+  }
+
+  static fromJSON(serialized: SerializedCommand, context: CommandContext): AssignTaskCommand | null {
+    const { data } = serialized;
+    const { onExecute, onUndo } = context.getCallbacks(AssignTaskCommand.TYPE, data);
+    const command = new AssignTaskCommand(
+      pendingTask(context, data.taskId),
+      data.newAssigneeIds,
+      onExecute,
+      onUndo
+    );
+    command.oldAssigneeIds = data.oldAssigneeIds;
+
+    return command;
+  }
+}
@@ -0,0 +1,125 @@
+import {
+  Command,
+  ParentGroup,
+  SerializedCommand,
+  TaskTarget,
+  applyWithRollback,
+  peekTask,
+  pendingTask,
+  resolveGroup,
+  resolveTask,
+  titlesOfTree,
+} from '../Command';
+import type { CommandContext } from '../CommandRegistry';
+import { TaskComponent } from '../../composite/TaskComponent';
+import { parseTaskTree, serializeTree } from '../../composite/TaskSchema';
+import type { TaskSnapshot } from '@/lib/types';
+
+/**
+ * Insère l'occurrence suivante d'une tâche récurrente juste après l'occurrence
+ * terminée (voir createNextOccurrence). La règle de récurrence passe de
+ * l'ancienne occurrence à la nouvelle, pour qu'elle ne soit générée qu'une fois.
+ */
+export class CreateOccurrenceCommand implements Command {
+  static readonly TYPE = 'CREATE_OCCURRENCE';
+
+  readonly type = CreateOccurrenceCommand.TYPE;
+  description: string;
+  timestamp: Date;
+  private recurrence: string | undefined;
+
+  constructor(
+    private previous: TaskTarget,
+    private occurrence: TaskComponent,
+    private parent: ParentGroup,
+    // Lignes de la nouvelle occurrence, insérées en base à l'exécution
+    private snapshot: TaskSnapshot[] = [],
+    private onExecute?: () => void | Promise<void>,
+    private onUndo?: () => void | Promise<void>
+  ) {
+    this.recurrence = peekTask(previous)?.recurrence ?? occurrence.recurrence;
+    this.description = occurrence.dueDate
+      ? `Schedule "${occurrence.title}" for ${occurrence.dueDate}`
+      : `Schedule next "${occurrence.title}"`;
+    this.timestamp = new Date();
+  }
+
+  private get group() {
+    return resolveGroup(this.parent);
+  }
+
+  private insert(): void {
+    const previous = resolveTask(this.previous);
+    const index = this.group.children.indexOf(previous);
+    this.group.insertChild(
+      this.occurrence,
+      index >= 0 ? index + 1 : this.group.children.length
+    );
+    previous.recurrence = undefined;
+  }
+
+  private remove(): void {
+    this.group.removeChild(this.occurrence.id);
+    resolveTask(this.previous).recurrence = this.recurrence;
+  }
+
+  execute(): Promise<void> {
+    return applyWithRollback(
+      () => this.insert(),
+      () => this.remove(),
+      this.onExecute
+    );
+  }
+
+  undo(): Promise<void> {
+    return applyWithRollback(
+      () => this.remove(),
+      () => this.insert(),
+      this.onUndo
+    );
+  }
+
+  getTitles(): string[] {
+    return titlesOfTree(this.occurrence);
+  }
+
+  serialize(): SerializedCommand {
+    return {
+      type: this.type,
+      description: this.description,
+      timestamp: this.timestamp.toISOString(),
+      data: {
+        taskId: this.occurrence.id,
+        task: serializeTree(this.occurrence),
+        previousId: this.previous.id,
+        parentId: this.parent.id,
+        recurrence: this.recurrence,
+        snapshot: this.snapshot,
+      },
+    };
+  }
+
+  static fromJSON(
+    serialized: SerializedCommand,
+    context: CommandContext
+  ): CreateOccurrenceCommand | null {
+    const { data } = serialized;
+    const parent = context.findGroup(data.parentId);
+    const previous = pendingTask(context, data.previousId);
+    const parsed = parseTaskTree(data.task);
+    const occurrence = context.findTask(parsed.id) ?? parsed;
+    const { onExecute, onUndo } = context.getCallbacks(CreateOccurrenceCommand.TYPE, data);
+
+    const command = new CreateOccurrenceCommand(
+      previous,
+      occurrence,
+      parent,
+      data.snapshot ?? [],
+      onExecute,
+      onUndo
+    );
+    command.recurrence = data.recurrence;
+
+    return command;
+  }
+}
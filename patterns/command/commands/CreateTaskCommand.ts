@@ -1,28 +1,81 @@
-import { Command } from '../Command';
+import {
+  Command,
+  ParentGroup,
+  SerializedCommand,
+  applyWithRollback,
+  resolveGroup,
+  titlesOfTree,
+} from '../Command';
+import type { CommandContext } from '../CommandRegistry';
 import { TaskComponent } from '../../composite/TaskComponent';
-import { TaskGroup } from '../../composite/TaskGroup';
+import { parseTaskTree, serializeTree } from '../../composite/TaskSchema';
+import type { TaskSnapshot } from '@/lib/types';
 
 export class CreateTaskCommand implements Command {
+  static readonly TYPE = 'CREATE_TASK';
+
+  readonly type = CreateTaskCommand.TYPE;
   description: string;
   timestamp: Date;
 
   constructor(
     private task: TaskComponent,
-    private parent: TaskGroup,
-    private onExecute?: () => void,
-    private onUndo?: () => void
+    private parent: ParentGroup,
+    // Ligne à insérer en base à chaque exécution (redo compris)
+    private snapshot: TaskSnapshot[] = [],
+    private onExecute?: () => void | Promise<void>,
+    private onUndo?: () => void | Promise<void>
   ) {
     this.description = `Create task "${task.title}"`;
     this.timestamp = new Date();
   }
 
-  execute(): void {
-    this.parent.addChild(this.task);
-    this.onExecute?.();
+  private get group() {
+    return resolveGroup(this.parent);
+  }
+
+  execute(): Promise<void> {
+    return applyWithRollback(
+      () => this.group.addChild(this.task),
+      () => this.group.removeChild(this.task.id),
+      this.onExecute
+    );
+  }
+
+  undo(): Promise<void> {
+    return applyWithRollback(
+      () => this.group.removeChild(this.task.id),
+      () => this.group.addChild(this.task),
+      this.onUndo
+    );
   }
 
-  undo(): void {
-    this.parent.removeChild(this.task.id);
-    this.onUndo?.();
+  getTitles(): string[] {
+    return titlesOfTree(this.task);
+  }
+
+  serialize(): SerializedCommand {
+    return {
+      type: this.type,
+      description: this.description,
+      timestamp: this.timestamp.toISOString(),
+      data: {
+        taskId: this.task.id,
+        task: serializeTree(this.task),
+        parentId: this.parent.id,
+        snapshot: this.snapshot,
+      },
+    };
+  }
+
+  static fromJSON(serialized: SerializedCommand, context: CommandContext): CreateTaskCommand | null {
+    const { data } = serialized;
+    const parent = context.findGroup(data.parentId);
+    // Les anciens historiques stockent un nœud nu : parseTaskTree le migre
+    const parsed = parseTaskTree(data.task);
+    const task = context.findTask(parsed.id) ?? parsed;
+    const { onExecute, onUndo } = context.getCallbacks(CreateTaskCommand.TYPE, data);
+
+    return new CreateTaskCommand(task, parent, data.snapshot ?? [], onExecute, onUndo);
   }
 }
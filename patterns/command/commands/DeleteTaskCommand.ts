@@ -1,36 +1,121 @@
-import { Command } from '../Command';
+import {
+  Command,
+  ParentGroup,
+  SerializedCommand,
+  applyWithRollback,
+  resolveGroup,
+} from '../Command';
+import type { CommandContext } from '../CommandRegistry';
 import { TaskComponent } from '../../composite/TaskComponent';
 import { TaskGroup } from '../../composite/TaskGroup';
+import { PrunedBlockers, pruneBlockers, restoreBlockers } from '../../composite/Dependencies';
+import { depthFirst } from '../../composite/TaskIterator';
+import { parseTaskTree, serializeTree } from '../../composite/TaskSchema';
 
+/**
+ * Supprime une tâche et son sous-arbre. Les tâches supprimées sont aussi
+ * retirées des bloqueurs des autres tâches ; l'annulation les y remet.
+ * Le sous-arbre retiré est gardé tel quel : l'annulation le réinsère et sa
+ * persistance écrit ces tâches-là, pas celles d'une première suppression.
+ */
 export class DeleteTaskCommand implements Command {
+  static readonly TYPE = 'DELETE_TASK';
+
+  readonly type = DeleteTaskCommand.TYPE;
   description: string;
   timestamp: Date;
   private deletedTask: TaskComponent | null = null;
   private deletedIndex: number = -1;
+  private prunedBlockers: PrunedBlockers[] = [];
 
   constructor(
+    private root: TaskGroup,
     private taskId: string,
-    private parent: TaskGroup,
+    private parent: ParentGroup,
     private taskTitle: string,
-    private onExecute?: () => void,
-    private onUndo?: () => void
+    private onExecute?: () => void | Promise<void>,
+    private onUndo?: () => void | Promise<void>
   ) {
     this.description = `Delete task "${taskTitle}"`;
     this.timestamp = new Date();
   }
 
-  execute(): void {
-    this.deletedIndex = this.parent.children.findIndex(
-      (child) => child.id === this.taskId
+  private get group() {
+    return resolveGroup(this.parent);
+  }
+
+  execute(): Promise<void> {
+    return applyWithRollback(
+      () => this.remove(),
+      () => this.reinsert(),
+      this.onExecute
     );
-    this.deletedTask = this.parent.removeChild(this.taskId);
-    this.onExecute?.();
   }
 
-  undo(): void {
+  async undo(): Promise<void> {
+    if (this.deletedTask && this.deletedIndex !== -1) {
+      await applyWithRollback(
+        () => this.reinsert(),
+        () => this.remove(),
+        this.onUndo
+      );
+    }
+  }
+
+  private remove(): void {
+    this.deletedIndex = this.group.children.findIndex((child) => child.id === this.taskId);
+    this.deletedTask = this.group.removeChild(this.taskId);
+    if (!this.deletedTask) return;
+
+    const deletedIds = depthFirst(this.deletedTask)
+      .toArray()
+      .map(({ task }) => task.id);
+    this.prunedBlockers = pruneBlockers(this.root, deletedIds);
+  }
+
+  private reinsert(): void {
     if (this.deletedTask && this.deletedIndex !== -1) {
-      this.parent.children.splice(this.deletedIndex, 0, this.deletedTask);
-      this.onUndo?.();
+      this.group.children.splice(this.deletedIndex, 0, this.deletedTask);
+      restoreBlockers(this.root, this.prunedBlockers);
     }
   }
+
+  serialize(): SerializedCommand {
+    return {
+      type: this.type,
+      description: this.description,
+      timestamp: this.timestamp.toISOString(),
+      data: {
+        taskId: this.taskId,
+        parentId: this.parent.id,
+        taskTitle: this.taskTitle,
+        deletedTask: this.deletedTask ? serializeTree(this.deletedTask) : null,
+        deletedIndex: this.deletedIndex,
+        prunedBlockers: this.prunedBlockers,
+      },
+    };
+  }
+
+  static fromJSON(serialized: SerializedCommand, context: CommandContext): DeleteTaskCommand | null {
+    const { data } = serialized;
+    const parent = context.findGroup(data.parentId);
+    const { onExecute, onUndo } = context.getCallbacks(DeleteTaskCommand.TYPE, data);
+    const command = new DeleteTaskCommand(
+      context.getRoot(),
+      data.taskId,
+      parent,
+      data.taskTitle,
+      onExecute,
+      onUndo
+    );
+
+    if (data.deletedTask) {
+      command.deletedTask = parseTaskTree(data.deletedTask);
+      command.deletedIndex = data.deletedIndex;
+    }
+
+    command.prunedBlockers = data.prunedBlockers ?? [];
+
+    return command;
+  }
 }
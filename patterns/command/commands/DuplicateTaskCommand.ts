@@ -0,0 +1,99 @@
+import {
+  Command,
+  ParentGroup,
+  SerializedCommand,
+  TaskTarget,
+  applyWithRollback,
+  peekTask,
+  pendingTask,
+  resolveGroup,
+  titlesOfTree,
+} from '../Command';
+import type { CommandContext } from '../CommandRegistry';
+import { TaskComponent } from '../../composite/TaskComponent';
+import { parseTaskTree, serializeTree } from '../../composite/TaskSchema';
+import type { TaskSnapshot } from '@/lib/types';
+
+/**
+ * Insère la copie d'une tâche (et de tout son sous-arbre, voir cloneTree)
+ * juste après l'originale
+ */
+export class DuplicateTaskCommand implements Command {
+  static readonly TYPE = 'DUPLICATE_TASK';
+
+  readonly type = DuplicateTaskCommand.TYPE;
+  description: string;
+  timestamp: Date;
+
+  constructor(
+    private original: TaskTarget,
+    private copy: TaskComponent,
+    private parent: ParentGroup,
+    // Lignes de la copie, insérées en base en un seul lot
+    private snapshot: TaskSnapshot[] = [],
+    private onExecute?: () => void | Promise<void>,
+    private onUndo?: () => void | Promise<void>
+  ) {
+    const count = copy.getTaskCount();
+    const title = peekTask(original)?.title ?? copy.title;
+    this.description =
+      count > 1 ? `Duplicate "${title}" (${count} tasks)` : `Duplicate "${title}"`;
+    this.timestamp = new Date();
+  }
+
+  private get group() {
+    return resolveGroup(this.parent);
+  }
+
+  private insert(): void {
+    // Sans l'original (supprimé depuis), la copie va en fin de groupe
+    const index = this.group.children.findIndex((child) => child.id === this.original.id);
+    this.group.insertChild(this.copy, index >= 0 ? index + 1 : this.group.children.length);
+  }
+
+  execute(): Promise<void> {
+    return applyWithRollback(
+      () => this.insert(),
+      () => this.group.removeChild(this.copy.id),
+      this.onExecute
+    );
+  }
+
+  undo(): Promise<void> {
+    return applyWithRollback(
+      () => this.group.removeChild(this.copy.id),
+      () => this.insert(),
+      this.onUndo
+    );
+  }
+
+  getTitles(): string[] {
+    return titlesOfTree(this.copy);
+  }
+
+  serialize(): SerializedCommand {
+    return {
+      type: this.type,
+      description: this.description,
+      timestamp: this.timestamp.toISOString(),
+      data: {
+        taskId: this.copy.id,
+        task: serializeTree(this.copy),
+        originalId: this.original.id,
+        parentId: this.parent.id,
+        snapshot: this.snapshot,
+      },
+    };
+  }
+
+  static fromJSON(serialized: SerializedCommand, context: CommandContext): DuplicateTaskCommand | null {
+    const { data } = serialized;
+    const parent = context.findGroup(data.parentId);
+    const original = pendingTask(context, data.originalId);
+    const parsed = parseTaskTree(data.task);
+    const copy = context.findTask(parsed.id) ?? parsed;
+    const { onExecute, onUndo } = context.getCallbacks(DuplicateTaskCommand.TYPE, data);
+
+    return new DuplicateTaskCommand(original, copy, parent, data.snapshot ?? [], onExecute, onUndo);
+  }
+}
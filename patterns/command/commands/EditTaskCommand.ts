@@ -1,29 +1,98 @@
-import { Command } from '../Command';
-import { TaskComponent } from '../../composite/TaskComponent';
+import {
+  Command,
+  SerializedCommand,
+  TaskTarget,
+  applyWithRollback,
+  peekTask,
+  pendingTask,
+  resolveTask,
+} from '../Command';
+import type { CommandContext } from '../CommandRegistry';
 
 export class EditTaskCommand implements Command {
+  static readonly TYPE = 'EDIT_TASK';
+
+  readonly type = EditTaskCommand.TYPE;
   description: string;
   timestamp: Date;
   private oldTitle: string;
 
   constructor(
-    private task: TaskComponent,
+    private task: TaskTarget,
     private newTitle: string,
-    private onExecute?: () => void,
-    private onUndo?: () => void
+    private onExecute?: () => void | Promise<void>,
+    private onUndo?: () => void | Promise<void>
   ) {
-    this.oldTitle = task.title;
+    this.oldTitle = peekTask(task)?.title ?? '';
     this.description = `Edit "${this.oldTitle}" to "${newTitle}"`;
     this.timestamp = new Date();
   }
 
-  execute(): void {
-    this.task.title = this.newTitle;
-    this.onExecute?.();
+  execute(): Promise<void> {
+    return applyWithRollback(
+      () => this.setTitle(this.newTitle),
+      () => this.setTitle(this.oldTitle),
+      this.onExecute
+    );
+  }
+
+  undo(): Promise<void> {
+    return applyWithRollback(
+      () => this.setTitle(this.oldTitle),
+      () => this.setTitle(this.newTitle),
+      this.onUndo
+    );
+  }
+
+  private setTitle(title: string): void {
+    resolveTask(this.task).title = title;
+  }
+
+  /**
+   * Les éditions successives d'une même tâche n'en font qu'une :
+   * le titre d'origine est gardé pour undo, le dernier titre pour redo
+   */
+  merge(next: Command): boolean {
+    if (!(next instanceof EditTaskCommand) || next.task.id !== this.task.id) return false;
+
+    this.newTitle = next.newTitle;
+    this.onExecute = next.onExecute;
+    this.description = `Edit "${this.oldTitle}" to "${this.newTitle}"`;
+    return true;
   }
 
-  undo(): void {
-    this.task.title = this.oldTitle;
-    this.onUndo?.();
+  isEmpty(): boolean {
+    return this.newTitle === this.oldTitle;
+  }
+
+  getTitles(): string[] {
+    return [this.newTitle];
+  }
+
+  serialize(): SerializedCommand {
+    return {
+      type: this.type,
+      description: this.description,
+      timestamp: this.timestamp.toISOString(),
+      data: {
+        taskId: this.task.id,
+        oldTitle: this.oldTitle,
+        newTitle: this.newTitle,
+      },
+    };
+  }
+
+  static fromJSON(serialized: SerializedCommand, context: CommandContext): EditTaskCommand | null {
+    const { data } = serialized;
+    const { onExecute, onUndo } = context.getCallbacks(EditTaskCommand.TYPE, data);
+    const command = new EditTaskCommand(
+      pendingTask(context, data.taskId),
+      data.newTitle,
+      onExecute,
+      onUndo
+    );
+    command.oldTitle = data.oldTitle;
+
+    return command;
   }
 }
@@ -0,0 +1,152 @@
+import { Command, SerializedCommand } from '../Command';
+import type { CommandContext, CommandRegistry } from '../CommandRegistry';
+
+/**
+ * Étape d'une macro : une commande, ou une fabrique appelée juste avant
+ * son exécution (elle voit l'état laissé par les étapes précédentes).
+ * Une fabrique qui retourne null est ignorée.
+ */
+export type MacroStep = Command | (() => Command | null);
+
+/**
+ * PATTERN COMMAND (Composite) - Groupe de commandes
+ *
+ * Exécute ses commandes dans l'ordre et les annule dans l'ordre inverse :
+ * une action groupée (ex. compléter 15 tâches) n'occupe qu'une entrée
+ * de l'historique. Si une commande échoue, celles déjà appliquées sont
+ * défaites pour que la macro reste atomique, puis l'erreur est propagée.
+ */
+export class MacroCommand implements Command {
+  static readonly TYPE = 'MACRO';
+
+  readonly type = MacroCommand.TYPE;
+  description: string;
+  timestamp: Date;
+  private commands: Command[] = [];
+  private built = false;
+  private stepChecks: Array<(command: Command) => void> = [];
+
+  constructor(description: string, private steps: MacroStep[] = []) {
+    this.description = description;
+    this.timestamp = new Date();
+  }
+
+  /**
+   * Commandes effectivement exécutées (connues après la première exécution)
+   */
+  getCommands(): ReadonlyArray<Command> {
+    return this.commands;
+  }
+
+  /**
+   * Titres écrits par les commandes déjà connues : toutes après la première
+   * exécution, sinon les étapes qui ne sont pas des fabriques
+   */
+  getTitles(): string[] {
+    const known = this.built
+      ? this.commands
+      : this.steps.filter((step): step is Command => typeof step !== 'function');
+    return known.reduce<string[]>((titles, command) => titles.concat(command.getTitles?.() ?? []), []);
+  }
+
+  /**
+   * Contrôle appliqué aux commandes construites par une fabrique, juste avant
+   * leur exécution (et transmis aux macros imbriquées). S'il lève une erreur,
+   * les étapes déjà appliquées sont défaites.
+   */
+  addStepCheck(check: (command: Command) => void): void {
+    this.stepChecks.push(check);
+  }
+
+  async execute(): Promise<void> {
+    // Redo : les commandes sont déjà construites
+    const steps: MacroStep[] = this.built ? this.commands : this.steps;
+    const done: Command[] = [];
+
+    try {
+      for (const step of steps) {
+        const command = typeof step === 'function' ? step() : step;
+        if (!command) continue;
+
+        if (!this.built) this.checkStep(command, command !== step);
+        await command.execute();
+        done.push(command);
+      }
+    } catch (error) {
+      await MacroCommand.revert(done, (command) => command.undo());
+      throw error;
+    }
+
+    this.commands = done;
+    this.built = true;
+  }
+
+  async undo(): Promise<void> {
+    const done: Command[] = [];
+
+    try {
+      for (const command of [...this.commands].reverse()) {
+        await command.undo();
+        done.push(command);
+      }
+    } catch (error) {
+      await MacroCommand.revert(done, (command) => command.execute());
+      throw error;
+    }
+  }
+
+  private checkStep(command: Command, fromFactory: boolean): void {
+    if (fromFactory) this.stepChecks.forEach((check) => check(command));
+    if (command instanceof MacroCommand) {
+      this.stepChecks.forEach((check) => command.addStepCheck(check));
+    }
+  }
+
+  /**
+   * Défait les commandes déjà passées, de la plus récente à la plus ancienne.
+   * Un échec à ce stade est seulement journalisé : l'erreur d'origine prime.
+   */
+  private static async revert(
+    done: Command[],
+    action: (command: Command) => Promise<void>
+  ): Promise<void> {
+    for (const command of [...done].reverse()) {
+      try {
+        await action(command);
+      } catch (error) {
+        console.error(`Could not roll back "${command.description}":`, error);
+      }
+    }
+  }
+
+  serialize(): SerializedCommand {
+    return {
+      type: this.type,
+      description: this.description,
+      timestamp: this.timestamp.toISOString(),
+      data: {
+        commands: this.commands.map((command) => command.serialize()),
+      },
+    };
+  }
+
+  /**
+   * Chaque commande du groupe est reconstruite par le registre ;
+   * la macro entière est abandonnée si l'une d'elles ne peut pas l'être.
+   */
+  static fromJSON(
+    serialized: SerializedCommand,
+    context: CommandContext,
+    registry: CommandRegistry
+  ): MacroCommand | null {
+    const entries: SerializedCommand[] = serialized.data.commands ?? [];
+    const commands = entries.map((entry) => registry.deserialize(entry, context));
+    if (commands.some((command) => command === null)) return null;
+
+    const macro = new MacroCommand(serialized.description);
+    macro.commands = commands as Command[];
+    macro.built = true;
+
+    return macro;
+  }
+}
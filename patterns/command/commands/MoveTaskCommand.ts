@@ -0,0 +1,100 @@
+import {
+  Command,
+  SerializedCommand,
+  TaskTarget,
+  applyWithRollback,
+  peekTask,
+  pendingTask,
+  resolveTask,
+} from '../Command';
+import type { CommandContext } from '../CommandRegistry';
+import { TaskGroup } from '../../composite/TaskGroup';
+
+/**
+ * Emplacement d'une tâche : parent, index parmi les frères
+ * (après retrait de la tâche) et clé d'ordre correspondante
+ */
+export interface TaskLocation {
+  parentId: string;
+  index: number;
+  sortKey?: string;
+}
+
+export class MoveTaskCommand implements Command {
+  static readonly TYPE = 'MOVE_TASK';
+
+  readonly type = MoveTaskCommand.TYPE;
+  description: string;
+  timestamp: Date;
+
+  constructor(
+    private root: TaskGroup,
+    private task: TaskTarget,
+    private from: TaskLocation,
+    private to: TaskLocation,
+    private onExecute?: () => void | Promise<void>,
+    private onUndo?: () => void | Promise<void>
+  ) {
+    const title = peekTask(task)?.title ?? '';
+    const toParent = root.findTask(to.parentId);
+    this.description =
+      from.parentId === to.parentId || !toParent
+        ? `Move task "${title}"`
+        : `Move "${title}" under "${toParent.title}"`;
+    this.timestamp = new Date();
+  }
+
+  execute(): Promise<void> {
+    return applyWithRollback(
+      () => this.moveTo(this.to),
+      () => this.moveTo(this.from),
+      this.onExecute
+    );
+  }
+
+  undo(): Promise<void> {
+    return applyWithRollback(
+      () => this.moveTo(this.from),
+      () => this.moveTo(this.to),
+      this.onUndo
+    );
+  }
+
+  private moveTo(location: TaskLocation): void {
+    const task = resolveTask(this.task);
+    if (!this.root.reparent(task.id, location.parentId, location.index)) {
+      throw new Error(`Cannot move "${task.title}" there`);
+    }
+    task.sortKey = location.sortKey;
+  }
+
+  serialize(): SerializedCommand {
+    return {
+      type: this.type,
+      description: this.description,
+      timestamp: this.timestamp.toISOString(),
+      data: {
+        taskId: this.task.id,
+        fromParentId: this.from.parentId,
+        fromIndex: this.from.index,
+        fromSortKey: this.from.sortKey,
+        toParentId: this.to.parentId,
+        toIndex: this.to.index,
+        toSortKey: this.to.sortKey,
+      },
+    };
+  }
+
+  static fromJSON(serialized: SerializedCommand, context: CommandContext): MoveTaskCommand | null {
+    const { data } = serialized;
+    const { onExecute, onUndo } = context.getCallbacks(MoveTaskCommand.TYPE, data);
+    return new MoveTaskCommand(
+      context.getRoot(),
+      pendingTask(context, data.taskId),
+      { parentId: data.fromParentId, index: data.fromIndex, sortKey: data.fromSortKey },
+      { parentId: data.toParentId, index: data.toIndex, sortKey: data.toSortKey },
+      onExecute,
+      onUndo
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  Command,
+  SerializedCommand,
+  TaskTarget,
+  applyWithRollback,
+  peekTask,
+  pendingTask,
+  resolveTask,
+} from '../Command';
+import type { CommandContext } from '../CommandRegistry';
+
+/**
+ * Retire la dépendance "task est bloquée par blocker"
+ */
+export class RemoveDependencyCommand implements Command {
+  static readonly TYPE = 'REMOVE_DEPENDENCY';
+
+  readonly type = RemoveDependencyCommand.TYPE;
+  description: string;
+  timestamp: Date;
+  private index: number;
+
+  constructor(
+    private task: TaskTarget,
+    private blocker: TaskTarget,
+    private onExecute?: () => void | Promise<void>,
+    private onUndo?: () => void | Promise<void>
+  ) {
+    const current = peekTask(task);
+    this.index = (current?.blockedByIds ?? []).indexOf(blocker.id);
+    this.description = `Unblock "${current?.title ?? ''}" from "${peekTask(blocker)?.title ?? ''}"`;
+    this.timestamp = new Date();
+  }
+
+  private remove(): void {
+    const task = resolveTask(this.task);
+    const blockedByIds = (task.blockedByIds ?? []).filter((id) => id !== this.blocker.id);
+    task.blockedByIds = blockedByIds.length > 0 ? blockedByIds : undefined;
+  }
+
+  // Remet le bloqueur à sa place d'origine dans la liste
+  private restore(): void {
+    const task = resolveTask(this.task);
+    const blockedByIds = [...(task.blockedByIds ?? [])];
+    const index = this.index >= 0 ? Math.min(this.index, blockedByIds.length) : blockedByIds.length;
+    blockedByIds.splice(index, 0, this.blocker.id);
+    task.blockedByIds = blockedByIds;
+  }
+
+  execute(): Promise<void> {
+    return applyWithRollback(
+      () => this.remove(),
+      () => this.restore(),
+      this.onExecute
+    );
+  }
+
+  undo(): Promise<void> {
+    return applyWithRollback(
+      () => this.restore(),
+      () => this.remove(),
+      this.onUndo
+    );
+  }
+
+  serialize(): SerializedCommand {
+    return {
+      type: this.type,
+      description: this.description,
+      timestamp: this.timestamp.toISOString(),
+      data: {
+        taskId: this.task.id,
+        blockerId: this.blocker.id,
+        index: this.index,
+      },
+    };
+  }
+
+  static fromJSON(serialized: SerializedCommand, context: CommandContext): RemoveDependencyCommand | null {
+    const { data } = serialized;
+    const { onExecute, onUndo } = context.getCallbacks(RemoveDependencyCommand.TYPE, data);
+    const command = new RemoveDependencyCommand(
+      pendingTask(context, data.taskId),
+      pendingTask(context, data.blockerId),
+      onExecute,
+      onUndo
+    );
+    command.index = data.index;
+
+    return command;
+  }
+}
@@ -1,27 +1,98 @@
-import { Command } from '../Command';
-import { TaskComponent } from '../../composite/TaskComponent';
+import {
+  Command,
+  SerializedCommand,
+  TaskTarget,
+  applyWithRollback,
+  peekTask,
+  pendingTask,
+  resolveTask,
+} from '../Command';
+import type { CommandContext } from '../CommandRegistry';
 
+/**
+ * Coche / décoche une tâche, ainsi que les tâches liées par la politique
+ * de complétion du projet (voir CompletionPolicy). Toutes sont inversées
+ * ensemble : la commande reste son propre inverse.
+ *
+ * Cocher puis décocher la même tâche (avec les mêmes tâches liées)
+ * s'annule : l'entrée disparaît de l'historique.
+ */
 export class ToggleStatusCommand implements Command {
+  static readonly TYPE = 'TOGGLE_STATUS';
+
+  readonly type = ToggleStatusCommand.TYPE;
   description: string;
   timestamp: Date;
+  private cancelled = false;
 
   constructor(
-    private task: TaskComponent,
-    private onExecute?: () => void,
-    private onUndo?: () => void
+    private task: TaskTarget,
+    private propagated: TaskTarget[] = [],
+    private onExecute?: () => void | Promise<void>,
+    private onUndo?: () => void | Promise<void>
   ) {
-    const action = task.completed ? 'Mark incomplete' : 'Mark complete';
-    this.description = `${action}: "${task.title}"`;
+    const current = peekTask(task);
+    const action = current?.completed ? 'Mark incomplete' : 'Mark complete';
+    const related = propagated.length > 0 ? ` (+${propagated.length} related)` : '';
+    this.description = `${action}: "${current?.title ?? ''}"${related}`;
     this.timestamp = new Date();
   }
 
-  execute(): void {
-    this.task.completed = !this.task.completed;
-    this.onExecute?.();
+  execute(): Promise<void> {
+    return applyWithRollback(() => this.toggle(), () => this.toggle(), this.onExecute);
+  }
+
+  undo(): Promise<void> {
+    return applyWithRollback(() => this.toggle(), () => this.toggle(), this.onUndo);
   }
 
-  undo(): void {
-    this.task.completed = !this.task.completed;
-    this.onUndo?.();
+  merge(next: Command): boolean {
+    if (
+      this.cancelled ||
+      !(next instanceof ToggleStatusCommand) ||
+      next.task.id !== this.task.id ||
+      next.propagated.length !== this.propagated.length ||
+      next.propagated.some(({ id }) => !this.propagated.some((task) => task.id === id))
+    ) {
+      return false;
+    }
+
+    this.cancelled = true;
+    return true;
+  }
+
+  isEmpty(): boolean {
+    return this.cancelled;
+  }
+
+  private toggle(): void {
+    [this.task, ...this.propagated].map(resolveTask).forEach((task) => {
+      task.completed = !task.completed;
+    });
+  }
+
+  serialize(): SerializedCommand {
+    return {
+      type: this.type,
+      description: this.description,
+      timestamp: this.timestamp.toISOString(),
+      data: {
+        taskId: this.task.id,
+        propagatedIds: this.propagated.map((task) => task.id),
+      },
+    };
+  }
+
+  static fromJSON(serialized: SerializedCommand, context: CommandContext): ToggleStatusCommand | null {
+    const { data } = serialized;
+    const propagatedIds: string[] = data.propagatedIds ?? [];
+
+    const { onExecute, onUndo } = context.getCallbacks(ToggleStatusCommand.TYPE, data);
+    return new ToggleStatusCommand(
+      pendingTask(context, data.taskId),
+      propagatedIds.map((id) => pendingTask(context, id)),
+      onExecute,
+      onUndo
+    );
   }
 }
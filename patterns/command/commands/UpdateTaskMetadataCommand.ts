@@ -0,0 +1,133 @@
+import {
+  Command,
+  SerializedCommand,
+  TaskTarget,
+  applyWithRollback,
+  peekTask,
+  pendingTask,
+  resolveTask,
+} from '../Command';
+import type { CommandContext } from '../CommandRegistry';
+import { TaskMetadata, TaskMetadataKey } from '../../composite/TaskComponent';
+
+/**
+ * Champs modifiés par la commande. null efface la valeur
+ * (undefined disparaîtrait lors de la sérialisation JSON).
+ */
+export type TaskMetadataChanges = {
+  [K in TaskMetadataKey]?: TaskMetadata[K] | null;
+};
+
+const FIELD_LABELS: Record<TaskMetadataKey, string> = {
+  dueDate: 'due date',
+  priority: 'priority',
+  description: 'description',
+  tags: 'tags',
+  assigneeIds: 'assignees',
+  estimate: 'estimate',
+  blockedByIds: 'dependencies',
+  recurrence: 'recurrence',
+};
+
+function changedKeys(changes: TaskMetadataChanges): TaskMetadataKey[] {
+  return Object.keys(changes) as TaskMetadataKey[];
+}
+
+function getField<K extends TaskMetadataKey>(task: TaskMetadata, key: K): TaskMetadataChanges[K] {
+  return task[key] ?? null;
+}
+
+function setField<K extends TaskMetadataKey>(
+  task: TaskMetadata,
+  key: K,
+  value: TaskMetadataChanges[K]
+): void {
+  task[key] = value ?? undefined;
+}
+
+/**
+ * Valeurs actuelles de la tâche pour les champs de `changes`
+ * (null pour un champ vide)
+ */
+export function readMetadata(task: TaskMetadata, changes: TaskMetadataChanges): TaskMetadataChanges {
+  const values: TaskMetadataChanges = {};
+  const read = <K extends TaskMetadataKey>(key: K) => {
+    values[key] = getField(task, key);
+  };
+  changedKeys(changes).forEach(read);
+  return values;
+}
+
+export class UpdateTaskMetadataCommand implements Command {
+  static readonly TYPE = 'UPDATE_TASK_METADATA';
+
+  readonly type = UpdateTaskMetadataCommand.TYPE;
+  description: string;
+  timestamp: Date;
+  private oldValues: TaskMetadataChanges;
+
+  constructor(
+    private task: TaskTarget,
+    private newValues: TaskMetadataChanges,
+    private onExecute?: () => void | Promise<void>,
+    private onUndo?: () => void | Promise<void>
+  ) {
+    const current = peekTask(task);
+    this.oldValues = current ? readMetadata(current, newValues) : {};
+
+    const fields = changedKeys(newValues).map((key) => FIELD_LABELS[key] ?? key);
+    this.description = `Update ${fields.join(', ')} of "${current?.title ?? ''}"`;
+    this.timestamp = new Date();
+  }
+
+  private apply(values: TaskMetadataChanges): void {
+    const task = resolveTask(this.task);
+    changedKeys(values).forEach((key) => setField(task, key, values[key]));
+  }
+
+  execute(): Promise<void> {
+    return applyWithRollback(
+      () => this.apply(this.newValues),
+      () => this.apply(this.oldValues),
+      this.onExecute
+    );
+  }
+
+  undo(): Promise<void> {
+    return applyWithRollback(
+      () => this.apply(this.oldValues),
+      () => this.apply(this.newValues),
+      this.onUndo
+    );
+  }
+
+  serialize(): SerializedCommand {
+    return {
+      type: this.type,
+      description: this.description,
+      timestamp: this.timestamp.toISOString(),
+      data: {
+        taskId: this.task.id,
+        oldValues: this.oldValues,
+        newValues: this.newValues,
+      },
+    };
+  }
+
+  static fromJSON(
+    serialized: SerializedCommand,
+    context: CommandContext
+  ): UpdateTaskMetadataCommand | null {
+    const { data } = serialized;
+    const { onExecute, onUndo } = context.getCallbacks(UpdateTaskMetadataCommand.TYPE, data);
+    const command = new UpdateTaskMetadataCommand(
+      pendingTask(context, data.taskId),
+      data.newValues,
+      onExecute,
+      onUndo
+    );
+    command.oldValues = data.oldValues;
+
+    return command;
+  }
+}
@@ -2,11 +2,63 @@
  * PATTERN COMMAND - Export centralisé
  */
 
-export type { Command } from './Command';
+export type {
+  Command,
+  ParentGroup,
+  PendingGroup,
+  PendingTask,
+  SerializedCommand,
+  TaskTarget,
+} from './Command';
+export {
+  applyWithRollback,
+  peekTask,
+  pendingTask,
+  resolveGroup,
+  resolveTask,
+  titlesOfTree,
+} from './Command';
 export { CommandManager } from './CommandManager';
+export type {
+  CommandAction,
+  CommandStatus,
+  HistoryEntry,
+  HistoryEntryState,
+  HistoryTravelPlan,
+  SerializableCommandHistory,
+} from './CommandManager';
+export { CommandRegistry, commandRegistry } from './CommandRegistry';
+export {
+  CommandRejectedError,
+  MAX_TITLE_LENGTH,
+  latencyMiddleware,
+  loggingMiddleware,
+  permissionMiddleware,
+  runMiddlewares,
+  validateTitle,
+  validationMiddleware,
+} from './CommandMiddleware';
+export type {
+  CommandInvocation,
+  CommandLatency,
+  CommandMiddleware,
+  CommandTelemetry,
+} from './CommandMiddleware';
+export type { CommandCallbacks, CommandContext, CommandFactory } from './CommandRegistry';
 
 // Export des commandes concrètes
+export { AddDependencyCommand } from './commands/AddDependencyCommand';
+export { AssignTaskCommand } from './commands/AssignTaskCommand';
+export { CreateOccurrenceCommand } from './commands/CreateOccurrenceCommand';
 export { CreateTaskCommand } from './commands/CreateTaskCommand';
 export { DeleteTaskCommand } from './commands/DeleteTaskCommand';
+export { DuplicateTaskCommand } from './commands/DuplicateTaskCommand';
 export { EditTaskCommand } from './commands/EditTaskCommand';
+export { MacroCommand } from './commands/MacroCommand';
+export type { MacroStep } from './commands/MacroCommand';
+export { MoveTaskCommand } from './commands/MoveTaskCommand';
+export type { TaskLocation } from './commands/MoveTaskCommand';
+export { RemoveDependencyCommand } from './commands/RemoveDependencyCommand';
 export { ToggleStatusCommand } from './commands/ToggleStatusCommand';
+export { UpdateTaskMetadataCommand, readMetadata } from './commands/UpdateTaskMetadataCommand';
+export type { TaskMetadataChanges } from './commands/UpdateTaskMetadataCommand';
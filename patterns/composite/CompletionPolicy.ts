@@ -0,0 +1,62 @@
+/**
+ * PATTERN COMPOSITE - Propagation de la complétion
+ *
+ * Détermine quelles autres tâches changent de statut lorsqu'une tâche
+ * est cochée ou décochée, selon la politique choisie pour le projet :
+ * - manual : aucune propagation
+ * - auto-complete-parent : un parent est complété quand tous ses enfants
+ *   le sont (et rouvert dès que l'un d'eux est rouvert), jusqu'à la racine
+ * - cascade : le nouveau statut est appliqué à tous les descendants
+ */
+
+import { TaskComponent } from './TaskComponent';
+import { TaskGroup } from './TaskGroup';
+import { depthFirst } from './TaskIterator';
+
+export type CompletionPolicy = 'manual' | 'auto-complete-parent' | 'cascade';
+
+export const COMPLETION_POLICIES: CompletionPolicy[] = [
+  'manual',
+  'auto-complete-parent',
+  'cascade',
+];
+
+/**
+ * Tâches (autres que `task`) dont le statut doit être inversé en même temps
+ * que celui de `task`. Seules les tâches qui changent réellement sont retournées.
+ */
+export function getPropagatedTasks(
+  root: TaskGroup,
+  task: TaskComponent,
+  policy: CompletionPolicy
+): TaskComponent[] {
+  const completed = !task.completed;
+
+  switch (policy) {
+    case 'cascade':
+      return depthFirst(task, { includeRoot: false })
+        .toArray()
+        .map((node) => node.task)
+        .filter((child) => child.completed !== completed);
+
+    case 'auto-complete-parent': {
+      const changed: TaskComponent[] = [];
+      const isCompleted = (t: TaskComponent) =>
+        t === task || changed.includes(t) ? !t.completed : t.completed;
+
+      // La racine représente le projet : elle n'a pas de statut propre
+      let parent = root.findParent(task.id);
+      while (parent && parent !== root) {
+        const allDone = parent.children.every(isCompleted);
+        if (allDone === parent.completed) break;
+
+        changed.push(parent);
+        parent = root.findParent(parent.id);
+      }
+      return changed;
+    }
+
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * PATTERN COMPOSITE - Dépendances entre tâches
+ *
+ * Une tâche peut être bloquée par d'autres tâches du même arbre (blockedByIds).
+ * Les dépendances forment un graphe orienté qui doit rester acyclique :
+ * une dépendance qui fermerait une boucle est refusée.
+ *
+ * Supprimer une tâche la retire des bloqueurs des autres tâches (pruneBlockers) ;
+ * annuler la suppression rétablit ces dépendances (restoreBlockers).
+ */
+
+import { TaskComponent } from './TaskComponent';
+import { TaskGroup } from './TaskGroup';
+import { depthFirst } from './TaskIterator';
+
+/**
+ * Bloqueurs d'une tâche avant qu'ils ne soient retirés
+ */
+export interface PrunedBlockers {
+  taskId: string;
+  blockedByIds: string[];
+}
+
+/**
+ * Tâches existantes qui bloquent `task`
+ */
+export function getBlockers(root: TaskGroup, task: TaskComponent): TaskComponent[] {
+  return (task.blockedByIds ?? [])
+    .map((id) => root.findTask(id))
+    .filter((blocker): blocker is TaskComponent => blocker !== null);
+}
+
+/**
+ * Bloqueurs pas encore terminés : tant qu'il en reste, la tâche est bloquée
+ */
+export function getOpenBlockers(root: TaskGroup, task: TaskComponent): TaskComponent[] {
+  return getBlockers(root, task).filter((blocker) => !blocker.completed);
+}
+
+/**
+ * Vrai si bloquer `taskId` par `blockerId` créerait un cycle, c'est-à-dire
+ * si `blockerId` est déjà (directement ou non) bloqué par `taskId`.
+ * Une tâche ne peut pas non plus dépendre d'elle-même.
+ */
+export function wouldCreateCycle(root: TaskGroup, taskId: string, blockerId: string): boolean {
+  const visited = new Set<string>();
+  const pending = [blockerId];
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (id === taskId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+
+    pending.push(...(root.findTask(id)?.blockedByIds ?? []));
+  }
+  return false;
+}
+
+/**
+ * Tâches de `root` bloquées par au moins une des tâches `ids`
+ */
+export function getDependents(root: TaskGroup, ids: string[]): TaskComponent[] {
+  return depthFirst(root)
+    .toArray()
+    .map(({ task }) => task)
+    .filter((task) => (task.blockedByIds ?? []).some((id) => ids.includes(id)));
+}
+
+/**
+ * Retire les tâches `removedIds` (supprimées) des bloqueurs des tâches de `root`.
+ * Retourne les listes d'origine des tâches modifiées.
+ */
+export function pruneBlockers(root: TaskGroup, removedIds: string[]): PrunedBlockers[] {
+  return getDependents(root, removedIds).map((task) => {
+    const blockedByIds = task.blockedByIds ?? [];
+    const remaining = blockedByIds.filter((id) => !removedIds.includes(id));
+    task.blockedByIds = remaining.length > 0 ? remaining : undefined;
+    return { taskId: task.id, blockedByIds };
+  });
+}
+
+/**
+ * Remet les listes retirées par pruneBlockers sur les tâches de `root`
+ * (celles qui ont disparu depuis sont ignorées)
+ */
+export function restoreBlockers(root: TaskGroup, pruned: PrunedBlockers[]): void {
+  pruned.forEach(({ taskId, blockedByIds }) => {
+    const task = root.findTask(taskId);
+    if (task) task.blockedByIds = [...blockedByIds];
+  });
+}
+
+/**
+ * Dépendance refusée parce qu'elle fermerait une boucle
+ */
+export class DependencyCycleError extends Error {
+  constructor(task: TaskComponent, blocker: TaskComponent) {
+    super(`"${task.title}" cannot depend on "${blocker.title}": it would create a cycle`);
+    this.name = 'DependencyCycleError';
+  }
+}
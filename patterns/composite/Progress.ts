@@ -0,0 +1,40 @@
+/**
+ * PATTERN COMPOSITE - Calcul de l'avancement
+ *
+ * Deux manières d'agréger l'avancement d'un ensemble de tâches :
+ * - count : chaque nœud compte pour 1 (groupes compris)
+ * - effort : chaque feuille pèse son estimation (DEFAULT_EFFORT si absente),
+ *   un groupe pèse la somme de ses enfants
+ */
+
+import { TaskComponent } from './TaskComponent';
+
+export type ProgressMode = 'count' | 'effort';
+
+/**
+ * Poids d'une feuille sans estimation
+ */
+export const DEFAULT_EFFORT = 1;
+
+export interface Progress {
+  completed: number;
+  total: number;
+  percentage: number;
+}
+
+export function computeProgress(tasks: TaskComponent[], mode: ProgressMode): Progress {
+  const completed = tasks.reduce(
+    (sum, task) => sum + (mode === 'effort' ? task.getCompletedEffort() : task.getCompletedCount()),
+    0
+  );
+  const total = tasks.reduce(
+    (sum, task) => sum + (mode === 'effort' ? task.getEffort() : task.getTaskCount()),
+    0
+  );
+
+  return {
+    completed,
+    total,
+    percentage: total > 0 ? Math.round((completed / total) * 100) : 0,
+  };
+}
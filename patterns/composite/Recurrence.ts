@@ -0,0 +1,279 @@
+/**
+ * PATTERN COMPOSITE - Tâches récurrentes
+ *
+ * Une tâche (ou un groupe) peut porter une règle de récurrence, écrite dans
+ * un sous-ensemble de RRULE (RFC 5545) :
+ * - FREQ=DAILY | WEEKLY | MONTHLY (obligatoire)
+ * - INTERVAL=n (1 par défaut)
+ * - BYDAY=MO,WE,... (WEEKLY uniquement)
+ * - BYMONTHDAY=n, de 1 à 31, ou -1 pour le dernier jour du mois (MONTHLY uniquement)
+ *
+ * Compléter une occurrence génère la suivante : une copie du sous-arbre,
+ * remise à « non terminée », avec de nouveaux ids et des échéances décalées.
+ * Aucune fonction ne lit l'horloge : la date du jour est toujours passée en paramètre.
+ * Les dates sont des chaînes ISO (YYYY-MM-DD) manipulées en UTC.
+ */
+
+import { TaskComponent } from './TaskComponent';
+import { cloneTree } from './TaskClone';
+import type { TaskJSON } from './TaskSchema';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+
+/**
+ * Du lundi au dimanche, comme la semaine ISO
+ */
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: Weekday[];
+  byMonthDay?: number;
+}
+
+/**
+ * Règle mal formée ou hors du sous-ensemble pris en charge
+ */
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(`Invalid recurrence rule: ${message}`);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+/**
+ * Lit une règle du type "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+ * (le préfixe "RRULE:" est accepté). Lève une RecurrenceRuleError.
+ */
+export function parseRecurrence(input: string): RecurrenceRule {
+  const parts: Record<string, string> = {};
+  input
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .filter(Boolean)
+    .forEach((part) => {
+      const [key, value, ...rest] = part.split('=');
+      if (!key || value === undefined || rest.length > 0) {
+        throw new RecurrenceRuleError(`"${part}" is not a KEY=VALUE pair`);
+      }
+      const name = key.trim().toUpperCase();
+      if (name in parts) {
+        throw new RecurrenceRuleError(`${name} is set twice`);
+      }
+      parts[name] = value.trim().toUpperCase();
+    });
+
+  Object.keys(parts).forEach((key) => {
+    if (!['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY'].includes(key)) {
+      throw new RecurrenceRuleError(`${key} is not supported`);
+    }
+  });
+
+  const frequency = parts.FREQ as RecurrenceFrequency;
+  if (!RECURRENCE_FREQUENCIES.includes(frequency)) {
+    throw new RecurrenceRuleError(`FREQ must be one of ${RECURRENCE_FREQUENCIES.join(', ')}`);
+  }
+
+  const rule: RecurrenceRule = { frequency, interval: 1 };
+
+  if (parts.INTERVAL !== undefined) {
+    const interval = Number(parts.INTERVAL);
+    if (!Number.isInteger(interval) || interval < 1) {
+      throw new RecurrenceRuleError('INTERVAL must be a positive integer');
+    }
+    rule.interval = interval;
+  }
+
+  if (parts.BYDAY !== undefined) {
+    if (frequency !== 'WEEKLY') {
+      throw new RecurrenceRuleError('BYDAY is only supported with FREQ=WEEKLY');
+    }
+    const days = parts.BYDAY.split(',').map((day) => day.trim());
+    days.forEach((day) => {
+      if (!WEEKDAYS.includes(day as Weekday)) {
+        throw new RecurrenceRuleError(`BYDAY: unknown day "${day}"`);
+      }
+    });
+    rule.byWeekday = WEEKDAYS.filter((day) => days.includes(day));
+  }
+
+  if (parts.BYMONTHDAY !== undefined) {
+    if (frequency !== 'MONTHLY') {
+      throw new RecurrenceRuleError('BYMONTHDAY is only supported with FREQ=MONTHLY');
+    }
+    const day = Number(parts.BYMONTHDAY);
+    if (!Number.isInteger(day) || (day !== -1 && (day < 1 || day > 31))) {
+      throw new RecurrenceRuleError('BYMONTHDAY must be between 1 and 31, or -1');
+    }
+    rule.byMonthDay = day;
+  }
+
+  return rule;
+}
+
+export function isValidRecurrence(input: string): boolean {
+  try {
+    parseRecurrence(input);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Forme canonique d'une règle (celle qui est enregistrée)
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byWeekday?.length) parts.push(`BYDAY=${rule.byWeekday.join(',')}`);
+  if (rule.byMonthDay !== undefined) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  return parts.join(';');
+}
+
+const UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+};
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+/**
+ * Libellé lisible, ex. "Every 2 weeks on Mon, Thu"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = UNITS[rule.frequency];
+  let label = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byWeekday?.length) {
+    label += ` on ${rule.byWeekday.map((day) => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (rule.byMonthDay !== undefined) {
+    label += rule.byMonthDay === -1 ? ' on the last day' : ` on day ${rule.byMonthDay}`;
+  }
+  return label;
+}
+
+/**
+ * Première date de la règle strictement postérieure à `after` (YYYY-MM-DD).
+ *
+ * Sans BYMONTHDAY, une règle mensuelle garde le jour de `after`, ramené
+ * au dernier jour des mois plus courts (31 janvier -> 28 février).
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: string): string {
+  const date = parseDate(after);
+
+  switch (rule.frequency) {
+    case 'DAILY':
+      return formatDate(addDays(date, rule.interval));
+
+    case 'WEEKLY': {
+      if (!rule.byWeekday?.length) {
+        return formatDate(addDays(date, 7 * rule.interval));
+      }
+      const today = weekdayIndex(date);
+      const days = rule.byWeekday.map((day) => WEEKDAYS.indexOf(day));
+      const later = days.find((day) => day > today);
+      if (later !== undefined) {
+        return formatDate(addDays(date, later - today));
+      }
+      // Premier jour de la semaine suivante (ou de `interval` semaines plus tard)
+      return formatDate(addDays(date, 7 * rule.interval - today + days[0]));
+    }
+
+    case 'MONTHLY': {
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth();
+      const day = date.getUTCDate();
+
+      const dayIn = (y: number, m: number) => {
+        const last = daysInMonth(y, m);
+        if (rule.byMonthDay === -1) return last;
+        return Math.min(rule.byMonthDay ?? day, last);
+      };
+
+      if (rule.byMonthDay !== undefined && dayIn(year, month) > day) {
+        return formatDate(new Date(Date.UTC(year, month, dayIn(year, month))));
+      }
+      const target = new Date(Date.UTC(year, month + rule.interval, 1));
+      const targetYear = target.getUTCFullYear();
+      const targetMonth = target.getUTCMonth();
+      return formatDate(new Date(Date.UTC(targetYear, targetMonth, dayIn(targetYear, targetMonth))));
+    }
+  }
+}
+
+/**
+ * Occurrence suivante d'une tâche récurrente, ou null si elle n'a pas de règle.
+ *
+ * Elle est planifiée après l'échéance de `task` (ou après `today` si elle n'en a pas).
+ * Tout le sous-arbre est copié : nouveaux ids (`generateId`), tâches non terminées,
+ * échéances décalées d'autant que la tâche elle-même, dépendances internes au
+ * sous-arbre reportées sur les copies. La règle est recopiée sur l'occurrence.
+ */
+export function createNextOccurrence(
+  task: TaskComponent,
+  today: string,
+  generateId: () => string
+): TaskComponent | null {
+  if (!task.recurrence) return null;
+
+  const from = task.dueDate ?? today;
+  const dueDate = nextOccurrence(parseRecurrence(task.recurrence), from);
+  const offset = daysBetween(from, dueDate);
+
+  return cloneTree(task, generateId, (copy, original) => {
+    const result: TaskJSON = { ...copy, completed: false };
+    if (original.id === task.id) {
+      result.dueDate = dueDate;
+    } else if (original.dueDate) {
+      result.dueDate = formatDate(addDays(parseDate(original.dueDate), offset));
+    }
+    return result;
+  });
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / DAY);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * 0 pour lundi, 6 pour dimanche
+ */
+function weekdayIndex(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
@@ -1,10 +1,22 @@
-import { TaskComponent } from './TaskComponent';
+import { CompletionState, TaskComponent, TaskPriority, pickMetadata } from './TaskComponent';
+import { DEFAULT_EFFORT } from './Progress';
+import type { TaskVisitor } from './TaskVisitor';
+import type { TaskLeafJSON } from './TaskSchema';
 
 export class Task implements TaskComponent {
   id: string;
   title: string;
   completed: boolean;
   children?: TaskComponent[] = undefined;
+  sortKey?: string;
+  dueDate?: string;
+  priority?: TaskPriority;
+  description?: string;
+  tags?: string[];
+  assigneeIds?: string[];
+  estimate?: number;
+  blockedByIds?: string[];
+  recurrence?: string;
 
   constructor(id: string, title: string, completed: boolean = false) {
     this.id = id;
@@ -20,19 +32,44 @@ export class Task implements TaskComponent {
     return this.completed ? 1 : 0;
   }
 
+  getEffort(): number {
+    return this.estimate ?? DEFAULT_EFFORT;
+  }
+
+  getCompletedEffort(): number {
+    return this.completed ? this.getEffort() : 0;
+  }
+
   isComplete(): boolean {
     return this.completed;
   }
 
-  toJSON(): any {
+  getCompletionState(): CompletionState {
+    return this.completed ? 'complete' : 'incomplete';
+  }
+
+  accept<R>(visitor: TaskVisitor<R>): R {
+    return visitor.visitTask(this);
+  }
+
+  toJSON(): TaskLeafJSON {
     return {
+      kind: 'task',
       id: this.id,
       title: this.title,
       completed: this.completed,
+      sortKey: this.sortKey,
+      ...pickMetadata(this),
     };
   }
 
-  static fromJSON(json: any): Task {
-    return new Task(json.id, json.title, json.completed);
+  /**
+   * Nœud déjà validé (voir parseTaskTree pour une entrée quelconque)
+   */
+  static fromJSON(json: TaskLeafJSON): Task {
+    const task = new Task(json.id, json.title, json.completed);
+    task.sortKey = json.sortKey;
+    Object.assign(task, pickMetadata(json));
+    return task;
   }
 }
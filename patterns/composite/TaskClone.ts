@@ -0,0 +1,53 @@
+/**
+ * PATTERN COMPOSITE - Copie profonde d'un sous-arbre
+ *
+ * Copie une tâche et tous ses descendants avec de nouveaux ids, en conservant
+ * titres, statuts, clés d'ordre et métadonnées. Les dépendances entre tâches
+ * du sous-arbre sont reportées sur les copies ; celles vers l'extérieur sont gardées.
+ *
+ * La copie passe par la forme JSON (toJSON / fromJSON), si bien qu'un groupe
+ * reste un groupe et une feuille une feuille.
+ */
+
+import { TaskComponent } from './TaskComponent';
+import { Task } from './Task';
+import { TaskGroup } from './TaskGroup';
+import type { TaskJSON } from './TaskSchema';
+
+/**
+ * Copie `task` et son sous-arbre. `transform` peut ajuster chaque nœud copié
+ * (il reçoit le nœud d'origine, ids déjà remplacés dans la copie).
+ */
+export function cloneTree(
+  task: TaskComponent,
+  generateId: () => string,
+  transform?: (copy: TaskJSON, original: TaskJSON) => TaskJSON
+): TaskComponent {
+  const json = task.toJSON();
+  const ids = new Map<string, string>();
+  collectIds(json, generateId, ids);
+
+  const copy = (node: TaskJSON): TaskJSON => {
+    let result: TaskJSON = { ...node, id: ids.get(node.id)! };
+    if (node.blockedByIds) {
+      result.blockedByIds = node.blockedByIds.map((id) => ids.get(id) ?? id);
+    }
+    if (result.kind === 'group') {
+      result.children = result.children.map(copy);
+    }
+    if (transform) {
+      result = transform(result, node);
+    }
+    return result;
+  };
+
+  const root = copy(json);
+  return root.kind === 'group' ? TaskGroup.fromJSON(root) : Task.fromJSON(root);
+}
+
+function collectIds(node: TaskJSON, generateId: () => string, ids: Map<string, string>): void {
+  ids.set(node.id, generateId());
+  if (node.kind === 'group') {
+    node.children.forEach((child) => collectIds(child, generateId, ids));
+  }
+}
@@ -7,12 +7,93 @@
  * Permet de traiter uniformément les tâches simples et les groupes de tâches.
  */
 
-export interface TaskComponent {
+import type { TaskVisitor } from './TaskVisitor';
+import type { TaskJSON } from './TaskSchema';
+
+export type CompletionState = 'complete' | 'partial' | 'incomplete';
+
+export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export const TASK_PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+/**
+ * Informations optionnelles d'une tâche, communes aux feuilles et aux groupes
+ */
+export interface TaskMetadata {
+  /**
+   * Échéance au format ISO (YYYY-MM-DD)
+   */
+  dueDate?: string;
+  priority?: TaskPriority;
+  /**
+   * Description longue, en markdown
+   */
+  description?: string;
+  tags?: string[];
+  /**
+   * Membres du projet responsables de la tâche (ids utilisateurs)
+   */
+  assigneeIds?: string[];
+  /**
+   * Estimation d'effort (points ou heures), utilisée pour l'avancement pondéré
+   */
+  estimate?: number;
+  /**
+   * Tâches qui doivent être terminées avant celle-ci (ids, voir Dependencies.ts)
+   */
+  blockedByIds?: string[];
+  /**
+   * Règle de récurrence (sous-ensemble de RRULE, voir Recurrence.ts)
+   */
+  recurrence?: string;
+}
+
+export type TaskMetadataKey = keyof TaskMetadata;
+
+export const TASK_METADATA_KEYS: TaskMetadataKey[] = [
+  'dueDate',
+  'priority',
+  'description',
+  'tags',
+  'assigneeIds',
+  'estimate',
+  'blockedByIds',
+  'recurrence',
+];
+
+/**
+ * Extrait les métadonnées définies d'une tâche (ou de sa forme JSON)
+ */
+export function pickMetadata(source: TaskMetadata): TaskMetadata {
+  const metadata: TaskMetadata = {};
+  TASK_METADATA_KEYS.forEach((key) => copyMetadata(metadata, source, key));
+  return metadata;
+}
+
+/**
+ * Copie une métadonnée si elle est définie (les listes sont dupliquées)
+ */
+function copyMetadata<K extends TaskMetadataKey>(
+  target: TaskMetadata,
+  source: TaskMetadata,
+  key: K
+): void {
+  const value = source[key];
+  if (value === undefined || value === null) return;
+  target[key] = Array.isArray(value) ? (value.slice() as TaskMetadata[K]) : value;
+}
+
+export interface TaskComponent extends TaskMetadata {
   id: string;
   title: string;
   completed: boolean;
   children?: TaskComponent[];
 
+  /**
+   * Clé d'ordre fractionnaire parmi les frères (voir lib/sortKey.ts)
+   */
+  sortKey?: string;
+
   /**
    * Compte récursivement le nombre total de tâches
    * (incluant la tâche courante et tous ses enfants)
@@ -24,13 +105,36 @@ export interface TaskComponent {
    */
   getCompletedCount(): number;
 
+  /**
+   * Effort total de la tâche (voir Progress.ts) : l'estimation d'une feuille,
+   * la somme des enfants pour un groupe
+   */
+  getEffort(): number;
+
+  /**
+   * Part de l'effort déjà réalisée
+   */
+  getCompletedEffort(): number;
+
   /**
    * Vérifie si cette tâche (et tous ses enfants) sont complétés
    */
   isComplete(): boolean;
 
   /**
-   * Convertit la tâche en objet JSON sérialisable
+   * État à trois valeurs pour l'affichage : 'partial' lorsqu'une partie
+   * seulement de la tâche et de ses descendants est complétée
+   */
+  getCompletionState(): CompletionState;
+
+  /**
+   * Point d'entrée du pattern Visitor (voir TaskVisitor.ts)
+   */
+  accept<R>(visitor: TaskVisitor<R>): R;
+
+  /**
+   * Convertit la tâche en nœud JSON typé (voir TaskSchema.ts ;
+   * serializeTree y ajoute l'enveloppe versionnée)
    */
-  toJSON(): any;
+  toJSON(): TaskJSON;
 }
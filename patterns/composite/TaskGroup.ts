@@ -1,11 +1,24 @@
-import { TaskComponent } from './TaskComponent';
+import { CompletionState, TaskComponent, TaskPriority, pickMetadata } from './TaskComponent';
 import { Task } from './Task';
+import { DEFAULT_EFFORT } from './Progress';
+import { depthFirst } from './TaskIterator';
+import type { TaskVisitor } from './TaskVisitor';
+import type { TaskGroupJSON } from './TaskSchema';
 
 export class TaskGroup implements TaskComponent {
   id: string;
   title: string;
   completed: boolean;
   children: TaskComponent[];
+  sortKey?: string;
+  dueDate?: string;
+  priority?: TaskPriority;
+  description?: string;
+  tags?: string[];
+  assigneeIds?: string[];
+  estimate?: number;
+  blockedByIds?: string[];
+  recurrence?: string;
 
   constructor(
     id: string,
@@ -35,61 +48,136 @@ export class TaskGroup implements TaskComponent {
     return thisCount + childrenCount;
   }
 
+  /**
+   * Sans enfant, un groupe pèse comme une feuille ;
+   * sinon sa propre estimation est ignorée au profit de ses enfants
+   */
+  getEffort(): number {
+    if (this.children.length === 0) return this.estimate ?? DEFAULT_EFFORT;
+    return this.children.reduce((sum, child) => sum + child.getEffort(), 0);
+  }
+
+  getCompletedEffort(): number {
+    if (this.children.length === 0) return this.completed ? this.getEffort() : 0;
+    return this.children.reduce((sum, child) => sum + child.getCompletedEffort(), 0);
+  }
+
   isComplete(): boolean {
     if (!this.completed) return false;
     return this.children.every((child) => child.isComplete());
   }
 
+  getCompletionState(): CompletionState {
+    const completed = this.getCompletedCount();
+    if (completed === 0) return 'incomplete';
+    return completed === this.getTaskCount() ? 'complete' : 'partial';
+  }
+
   addChild(task: TaskComponent): void {
     this.children.push(task);
   }
 
+  insertChild(task: TaskComponent, index: number): void {
+    this.children.splice(index, 0, task);
+  }
+
+  /**
+   * Retire le descendant `taskId`, à n'importe quelle profondeur
+   */
   removeChild(taskId: string): TaskComponent | null {
-    const index = this.children.findIndex((child) => child.id === taskId);
-    if (index === -1) {
-      for (const child of this.children) {
-        if (child.children) {
-          const removed = (child as TaskGroup).removeChild(taskId);
-          if (removed) return removed;
-        }
-      }
-      return null;
-    }
-    return this.children.splice(index, 1)[0];
+    const parent = this.findParent(taskId);
+    if (!parent) return null;
+
+    const index = parent.children.findIndex((child) => child.id === taskId);
+    return parent.children.splice(index, 1)[0];
   }
 
-  findTask(taskId: string): TaskComponent | null {
+  /**
+   * Garantit que la tâche `taskId` peut recevoir des enfants :
+   * une feuille (Task) devient un TaskGroup sur place (voir promote).
+   */
+  promoteToGroup(taskId: string): TaskGroup | null {
     if (this.id === taskId) return this;
 
-    for (const child of this.children) {
-      if (child.id === taskId) return child;
-      if (child.children) {
-        const found = (child as TaskGroup).findTask(taskId);
-        if (found) return found;
+    for (let i = 0; i < this.children.length; i++) {
+      const child = this.children[i];
+      if (child.id === taskId) {
+        return child instanceof TaskGroup ? child : TaskGroup.promote(child);
+      }
+      if (child instanceof TaskGroup) {
+        const promoted = child.promoteToGroup(taskId);
+        if (promoted) return promoted;
       }
     }
     return null;
   }
 
-  toJSON(): any {
+  findParent(taskId: string): TaskGroup | null {
+    const node = depthFirst(this, { includeRoot: false }).find(({ task }) => task.id === taskId);
+    return node?.parent instanceof TaskGroup ? node.parent : null;
+  }
+
+  /**
+   * Déplace le descendant `taskId` sous `newParentId`, à la position `index`
+   * (calculée après retrait de la tâche de son parent actuel).
+   * Refuse de déplacer une tâche sous elle-même ou sous l'un de ses descendants ;
+   * une feuille qui reçoit un enfant devient un TaskGroup.
+   */
+  reparent(taskId: string, newParentId: string, index: number): boolean {
+    const task = this.findTask(taskId);
+    if (!task || task === this || task.id === newParentId) return false;
+    if (task instanceof TaskGroup && task.findTask(newParentId)) return false;
+
+    const newParent = this.promoteToGroup(newParentId);
+    if (!newParent) return false;
+
+    this.removeChild(taskId);
+    newParent.insertChild(task, Math.min(Math.max(index, 0), newParent.children.length));
+    return true;
+  }
+
+  findTask(taskId: string): TaskComponent | null {
+    return depthFirst(this).find(({ task }) => task.id === taskId)?.task ?? null;
+  }
+
+  accept<R>(visitor: TaskVisitor<R>): R {
+    return visitor.visitGroup(this);
+  }
+
+  toJSON(): TaskGroupJSON {
     return {
+      kind: 'group',
       id: this.id,
       title: this.title,
       completed: this.completed,
+      sortKey: this.sortKey,
+      ...pickMetadata(this),
       children: this.children.map((child) => child.toJSON()),
     };
   }
 
-  static fromJSON(json: any): TaskGroup {
-    const children = json.children
-      ? json.children.map((childJson: any) => {
-          if (childJson.children && childJson.children.length > 0) {
-            return TaskGroup.fromJSON(childJson);
-          }
-          return Task.fromJSON(childJson);
-        })
-      : [];
+  /**
+   * Change une feuille en groupe sans changer d'objet : les commandes de
+   * l'historique qui la référencent voient toujours la tâche de l'arbre.
+   */
+  static promote(task: TaskComponent): TaskGroup {
+    const group: TaskGroup = Object.setPrototypeOf(task, TaskGroup.prototype);
+    group.children = task.children ?? [];
+    return group;
+  }
+
+  /**
+   * Nœud déjà validé (voir parseTaskTree pour une entrée quelconque).
+   * Le discriminant `kind` décide du type de chaque enfant : un groupe vide reste un groupe.
+   */
+  static fromJSON(json: TaskGroupJSON): TaskGroup {
+    const children = json.children.map((childJson) =>
+      childJson.kind === 'group' ? TaskGroup.fromJSON(childJson) : Task.fromJSON(childJson)
+    );
 
-    return new TaskGroup(json.id, json.title, json.completed, children);
+    const group = new TaskGroup(json.id, json.title, json.completed, children);
+    group.sortKey = json.sortKey;
+    Object.assign(group, pickMetadata(json));
+    return group;
   }
 }
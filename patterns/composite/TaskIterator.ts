@@ -0,0 +1,144 @@
+/**
+ * PATTERN ITERATOR - Parcours de l'arbre de tâches
+ *
+ * Parcourt un Composite en profondeur (ordre d'affichage) ou en largeur
+ * (niveau par niveau), sans récursion côté appelant. Chaque nœud visité
+ * indique son parent, sa profondeur, sa position et le chemin depuis la racine.
+ *
+ * Les itérateurs sont paresseux : les enfants ne sont lus qu'au moment
+ * où le parcours les atteint.
+ */
+
+import { TaskComponent } from './TaskComponent';
+
+export interface TaskNode {
+  task: TaskComponent;
+  /**
+   * null pour la racine du parcours
+   */
+  parent: TaskComponent | null;
+  /**
+   * 0 pour la racine du parcours
+   */
+  depth: number;
+  /**
+   * Position parmi les frères (0 pour la racine)
+   */
+  index: number;
+  /**
+   * Ancêtres, de la racine du parcours jusqu'au parent
+   */
+  path: TaskComponent[];
+}
+
+export interface TraversalOptions {
+  /**
+   * Inclure la racine du parcours (true par défaut). Utile à false
+   * pour la racine d'un projet, qui représente le projet lui-même.
+   */
+  includeRoot?: boolean;
+}
+
+abstract class TaskIterator implements IterableIterator<TaskNode> {
+  protected pending: TaskNode[];
+
+  constructor(root: TaskComponent, options: TraversalOptions = {}) {
+    const rootNode: TaskNode = { task: root, parent: null, depth: 0, index: 0, path: [] };
+    this.pending = options.includeRoot === false ? this.childNodes(rootNode) : [rootNode];
+  }
+
+  /**
+   * Retire le prochain nœud de la file d'attente
+   */
+  protected abstract take(): TaskNode;
+
+  /**
+   * Ajoute les enfants du nœud visité à la file d'attente
+   */
+  protected abstract schedule(children: TaskNode[]): void;
+
+  hasNext(): boolean {
+    return this.pending.length > 0;
+  }
+
+  next(): IteratorResult<TaskNode> {
+    if (!this.hasNext()) {
+      return { done: true, value: undefined };
+    }
+
+    const node = this.take();
+    this.schedule(this.childNodes(node));
+    return { done: false, value: node };
+  }
+
+  [Symbol.iterator](): IterableIterator<TaskNode> {
+    return this;
+  }
+
+  /**
+   * Consomme le reste du parcours
+   */
+  toArray(): TaskNode[] {
+    const nodes: TaskNode[] = [];
+    while (this.hasNext()) {
+      nodes.push(this.next().value as TaskNode);
+    }
+    return nodes;
+  }
+
+  /**
+   * Premier nœud qui satisfait le prédicat (le parcours s'arrête dessus)
+   */
+  find(predicate: (node: TaskNode) => boolean): TaskNode | null {
+    while (this.hasNext()) {
+      const node = this.next().value as TaskNode;
+      if (predicate(node)) return node;
+    }
+    return null;
+  }
+
+  private childNodes(node: TaskNode): TaskNode[] {
+    const path = [...node.path, node.task];
+    return (node.task.children ?? []).map((child, index) => ({
+      task: child,
+      parent: node.task,
+      depth: node.depth + 1,
+      index,
+      path,
+    }));
+  }
+}
+
+/**
+ * Parcours en profondeur (pré-ordre) : un parent, puis tout son sous-arbre
+ */
+export class DepthFirstIterator extends TaskIterator {
+  protected take(): TaskNode {
+    return this.pending.shift()!;
+  }
+
+  protected schedule(children: TaskNode[]): void {
+    this.pending.unshift(...children);
+  }
+}
+
+/**
+ * Parcours en largeur : tous les nœuds d'une profondeur avant la suivante
+ */
+export class BreadthFirstIterator extends TaskIterator {
+  protected take(): TaskNode {
+    return this.pending.shift()!;
+  }
+
+  protected schedule(children: TaskNode[]): void {
+    this.pending.push(...children);
+  }
+}
+
+export function depthFirst(root: TaskComponent, options?: TraversalOptions): DepthFirstIterator {
+  return new DepthFirstIterator(root, options);
+}
+
+export function breadthFirst(root: TaskComponent, options?: TraversalOptions): BreadthFirstIterator {
+  return new BreadthFirstIterator(root, options);
+}
@@ -0,0 +1,228 @@
+/**
+ * PATTERN COMPOSITE - Format JSON versionné des arbres de tâches
+ *
+ * Chaque nœud porte un discriminant `kind` ('task' | 'group'), de sorte qu'un
+ * groupe vide reste un groupe. Un arbre sérialisé est enveloppé dans un
+ * document { schemaVersion, root }. parseTaskTree migre les anciennes versions,
+ * valide strictement le document puis reconstruit le Composite.
+ *
+ * Versions :
+ * - 1 : nœuds sans `kind` ni enveloppe (ancien toJSON) ; un groupe se reconnaît
+ *       à son tableau `children`, toujours émis par TaskGroup.toJSON
+ * - 2 : format actuel
+ */
+
+import { TASK_PRIORITIES, TaskComponent, TaskMetadata } from './TaskComponent';
+import { Task } from './Task';
+import { TaskGroup } from './TaskGroup';
+import { isValidRecurrence } from './Recurrence';
+
+export const TASK_SCHEMA_VERSION = 2;
+
+interface TaskJSONBase extends TaskMetadata {
+  id: string;
+  title: string;
+  completed: boolean;
+  sortKey?: string;
+}
+
+export interface TaskLeafJSON extends TaskJSONBase {
+  kind: 'task';
+}
+
+export interface TaskGroupJSON extends TaskJSONBase {
+  kind: 'group';
+  children: TaskJSON[];
+}
+
+export type TaskJSON = TaskLeafJSON | TaskGroupJSON;
+
+export interface TaskTreeDocument {
+  schemaVersion: number;
+  root: TaskJSON;
+}
+
+/**
+ * Document invalide : `issues` liste chaque problème avec son chemin
+ * (ex. "root.children[1].title: expected a string")
+ */
+export class TaskSchemaError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid task tree: ${issues.join('; ')}`);
+    this.name = 'TaskSchemaError';
+  }
+}
+
+/**
+ * MIGRATIONS[n] convertit un document de version n en version n + 1
+ */
+const MIGRATIONS: Record<number, (document: any) => any> = {
+  1: (document) => ({ schemaVersion: 2, root: addKinds(document.root) }),
+};
+
+function addKinds(node: any): any {
+  if (!isObject(node)) return node;
+  if (Array.isArray(node.children)) {
+    return { ...node, kind: 'group', children: node.children.map(addKinds) };
+  }
+  return { ...node, kind: 'task' };
+}
+
+export function serializeTree(task: TaskComponent): TaskTreeDocument {
+  return { schemaVersion: TASK_SCHEMA_VERSION, root: task.toJSON() };
+}
+
+/**
+ * Amène un document (ou un nœud nu de version 1) à la version courante
+ */
+export function migrateTaskTree(input: unknown): unknown {
+  let document: any =
+    isObject(input) && 'schemaVersion' in input ? input : { schemaVersion: 1, root: input };
+
+  const version = document.schemaVersion;
+  if (!Number.isInteger(version) || version < 1 || version > TASK_SCHEMA_VERSION) {
+    throw new TaskSchemaError([`schemaVersion: unsupported version ${JSON.stringify(version)}`]);
+  }
+
+  for (let v = version; v < TASK_SCHEMA_VERSION; v++) {
+    document = MIGRATIONS[v](document);
+  }
+  return document;
+}
+
+/**
+ * Vérifie un document de version courante. Lève une TaskSchemaError
+ * qui regroupe tous les problèmes trouvés.
+ */
+export function validateTaskTree(input: unknown): TaskTreeDocument {
+  const issues: string[] = [];
+
+  if (!isObject(input)) {
+    throw new TaskSchemaError(['document: expected an object']);
+  }
+  if (input.schemaVersion !== TASK_SCHEMA_VERSION) {
+    issues.push(`schemaVersion: expected ${TASK_SCHEMA_VERSION}`);
+  }
+  checkUnknownKeys(input, ['schemaVersion', 'root'], 'document', issues);
+  validateNode(input.root, 'root', new Set(), issues);
+
+  if (issues.length > 0) {
+    throw new TaskSchemaError(issues);
+  }
+  return input as unknown as TaskTreeDocument;
+}
+
+/**
+ * Migre, valide puis reconstruit un arbre sérialisé
+ */
+export function parseTaskTree(input: unknown): TaskComponent {
+  const document = validateTaskTree(migrateTaskTree(input));
+  return taskFromJSON(document.root);
+}
+
+export function taskFromJSON(json: TaskJSON): TaskComponent {
+  return json.kind === 'group' ? TaskGroup.fromJSON(json) : Task.fromJSON(json);
+}
+
+const NODE_KEYS = [
+  'kind',
+  'id',
+  'title',
+  'completed',
+  'sortKey',
+  'dueDate',
+  'priority',
+  'description',
+  'tags',
+  'assigneeIds',
+  'estimate',
+  'blockedByIds',
+  'recurrence',
+  'children',
+];
+
+function validateNode(node: unknown, path: string, seenIds: Set<string>, issues: string[]): void {
+  if (!isObject(node)) {
+    issues.push(`${path}: expected an object`);
+    return;
+  }
+
+  const issue = (key: string, message: string) => issues.push(`${path}.${key}: ${message}`);
+  const optional = (key: string, check: (value: any) => boolean, message: string) => {
+    if (node[key] !== undefined && !check(node[key])) issue(key, message);
+  };
+
+  if (node.kind !== 'task' && node.kind !== 'group') {
+    issue('kind', `expected "task" or "group", got ${JSON.stringify(node.kind)}`);
+  }
+
+  if (typeof node.id !== 'string' || node.id === '') {
+    issue('id', 'expected a non-empty string');
+  } else if (seenIds.has(node.id)) {
+    issue('id', `duplicate id "${node.id}"`);
+  } else {
+    seenIds.add(node.id);
+  }
+
+  if (typeof node.title !== 'string') issue('title', 'expected a string');
+  if (typeof node.completed !== 'boolean') issue('completed', 'expected a boolean');
+
+  optional('sortKey', (v) => typeof v === 'string', 'expected a string');
+  optional(
+    'dueDate',
+    (v) => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v),
+    'expected a YYYY-MM-DD date'
+  );
+  optional(
+    'priority',
+    (v) => TASK_PRIORITIES.includes(v),
+    `expected one of ${TASK_PRIORITIES.join(', ')}`
+  );
+  optional('description', (v) => typeof v === 'string', 'expected a string');
+  optional('tags', isStringArray, 'expected an array of strings');
+  optional('assigneeIds', isStringArray, 'expected an array of strings');
+  optional(
+    'estimate',
+    (v) => typeof v === 'number' && Number.isFinite(v) && v >= 0,
+    'expected a non-negative number'
+  );
+  optional('blockedByIds', isStringArray, 'expected an array of strings');
+  optional(
+    'recurrence',
+    (v) => typeof v === 'string' && isValidRecurrence(v),
+    'expected a supported recurrence rule'
+  );
+
+  checkUnknownKeys(node, NODE_KEYS, path, issues);
+
+  if (node.kind === 'group') {
+    if (!Array.isArray(node.children)) {
+      issue('children', 'expected an array');
+    } else {
+      node.children.forEach((child, index) =>
+        validateNode(child, `${path}.children[${index}]`, seenIds, issues)
+      );
+    }
+  } else if (node.kind === 'task' && node.children !== undefined) {
+    issue('children', 'a task of kind "task" cannot have children');
+  }
+}
+
+function checkUnknownKeys(
+  value: Record<string, unknown>,
+  allowed: string[],
+  path: string,
+  issues: string[]
+): void {
+  Object.keys(value)
+    .filter((key) => !allowed.includes(key))
+    .forEach((key) => issues.push(`${path}.${key}: unknown property`));
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
@@ -0,0 +1,75 @@
+/**
+ * PATTERN COMPOSITE - Modèles de projet
+ *
+ * Un modèle est l'arbre d'un projet enregistré au format JSON versionné
+ * (serializeTree). Il ne garde que la structure réutilisable : statuts remis
+ * à « non terminé », sans échéances ni membres assignés.
+ *
+ * Les titres peuvent contenir des variables {{nom}}, remplies à la création
+ * d'un projet à partir du modèle.
+ */
+
+import { TaskComponent } from './TaskComponent';
+import { TaskGroup } from './TaskGroup';
+import { depthFirst } from './TaskIterator';
+import { cloneTree } from './TaskClone';
+import { TaskJSON, TaskTreeDocument, serializeTree } from './TaskSchema';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Arbre d'un modèle à partir de la racine d'un projet. Les ids sont
+ * provisoires : ils sont remplacés à chaque instanciation.
+ */
+export function toTemplateTree(root: TaskGroup, name: string): TaskTreeDocument {
+  let nextId = 0;
+  const template = cloneTree(root, () => `t${++nextId}`, (copy) => {
+    const result: TaskJSON = { ...copy, completed: false };
+    delete result.dueDate;
+    delete result.assigneeIds;
+    return result;
+  });
+  template.title = name;
+  return serializeTree(template);
+}
+
+/**
+ * Noms des variables utilisées dans les titres, dans l'ordre d'apparition
+ */
+export function extractTemplateVariables(root: TaskComponent): string[] {
+  const names: string[] = [];
+  depthFirst(root).toArray().forEach(({ task }) => {
+    task.title.replace(VARIABLE_PATTERN, (match, name: string) => {
+      if (!names.includes(name)) names.push(name);
+      return match;
+    });
+  });
+  return names;
+}
+
+/**
+ * Remplace les variables connues ; les autres restent telles quelles
+ */
+export function fillTemplateVariables(text: string, values: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (match, name: string) =>
+    values[name] !== undefined && values[name] !== '' ? values[name] : match
+  );
+}
+
+/**
+ * Copie d'un modèle prête à devenir l'arbre d'un nouveau projet :
+ * nouveaux ids (la racine prend l'id du projet) et variables remplies
+ */
+export function instantiateTemplate(
+  template: TaskGroup,
+  projectId: string,
+  values: Record<string, string>,
+  generateId: () => string
+): TaskGroup {
+  const root = cloneTree(template, generateId, (copy) => ({
+    ...copy,
+    title: fillTemplateVariables(copy.title, values),
+  })) as TaskGroup;
+  root.id = projectId;
+  return root;
+}
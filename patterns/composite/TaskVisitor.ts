@@ -0,0 +1,17 @@
+/**
+ * PATTERN VISITOR - Opérations sur l'arbre de tâches
+ *
+ * Permet d'ajouter une opération (recherche, statistiques, export, validation...)
+ * sans modifier Task ni TaskGroup : chaque élément appelle la méthode du visiteur
+ * qui lui correspond via accept(visitor) (double dispatch).
+ *
+ * Le visiteur décide lui-même s'il descend dans les enfants d'un groupe.
+ */
+
+import type { Task } from './Task';
+import type { TaskGroup } from './TaskGroup';
+
+export interface TaskVisitor<R = void> {
+  visitTask(task: Task): R;
+  visitGroup(group: TaskGroup): R;
+}
@@ -2,6 +2,64 @@
  * PATTERN COMPOSITE - Export centralisé
  */
 
-export type { TaskComponent } from './TaskComponent';
+export type {
+  CompletionState,
+  TaskComponent,
+  TaskMetadata,
+  TaskPriority,
+} from './TaskComponent';
+export { TASK_METADATA_KEYS, TASK_PRIORITIES, pickMetadata } from './TaskComponent';
 export { Task } from './Task';
 export { TaskGroup } from './TaskGroup';
+export type { CompletionPolicy } from './CompletionPolicy';
+export { COMPLETION_POLICIES, getPropagatedTasks } from './CompletionPolicy';
+export type { PrunedBlockers } from './Dependencies';
+export {
+  DependencyCycleError,
+  getBlockers,
+  getDependents,
+  getOpenBlockers,
+  pruneBlockers,
+  restoreBlockers,
+  wouldCreateCycle,
+} from './Dependencies';
+export {
+  RECURRENCE_FREQUENCIES,
+  RecurrenceRuleError,
+  WEEKDAYS,
+  createNextOccurrence,
+  describeRecurrence,
+  formatRecurrence,
+  isValidRecurrence,
+  nextOccurrence,
+  parseRecurrence,
+} from './Recurrence';
+export type { RecurrenceFrequency, RecurrenceRule, Weekday } from './Recurrence';
+export { cloneTree } from './TaskClone';
+export {
+  extractTemplateVariables,
+  fillTemplateVariables,
+  instantiateTemplate,
+  toTemplateTree,
+} from './TaskTemplate';
+export type { Progress, ProgressMode } from './Progress';
+export { DEFAULT_EFFORT, computeProgress } from './Progress';
+
+// Parcours (Iterator) et opérations (Visitor) sur l'arbre
+export { BreadthFirstIterator, DepthFirstIterator, breadthFirst, depthFirst } from './TaskIterator';
+export type { TaskNode, TraversalOptions } from './TaskIterator';
+export type { TaskVisitor } from './TaskVisitor';
+
+// Format JSON versionné
+export {
+  TASK_SCHEMA_VERSION,
+  TaskSchemaError,
+  migrateTaskTree,
+  parseTaskTree,
+  serializeTree,
+  taskFromJSON,
+  validateTaskTree,
+} from './TaskSchema';
+export type { TaskGroupJSON, TaskJSON, TaskLeafJSON, TaskTreeDocument } from './TaskSchema';
+export { StatisticsVisitor } from './visitors';
+export type { TaskTreeStatistics } from './visitors';
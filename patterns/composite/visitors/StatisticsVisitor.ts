@@ -0,0 +1,50 @@
+import { TaskComponent } from '../TaskComponent';
+import type { Task } from '../Task';
+import type { TaskGroup } from '../TaskGroup';
+import type { TaskVisitor } from '../TaskVisitor';
+
+export interface TaskTreeStatistics {
+  tasks: number;
+  completed: number;
+}
+
+/**
+ * Compte les tâches d'un sous-arbre (la racine visitée est comptée)
+ */
+export class StatisticsVisitor implements TaskVisitor<TaskTreeStatistics> {
+  visitTask(task: Task): TaskTreeStatistics {
+    return this.countOwn(task);
+  }
+
+  visitGroup(group: TaskGroup): TaskTreeStatistics {
+    return group.children
+      .map((child) => child.accept(this))
+      .reduce(
+        (total, child) => ({
+          tasks: total.tasks + child.tasks,
+          completed: total.completed + child.completed,
+        }),
+        this.countOwn(group)
+      );
+  }
+
+  /**
+   * Cumule les statistiques de plusieurs arbres (ex. les tâches d'un projet)
+   */
+  static collect(tasks: TaskComponent[]): TaskTreeStatistics {
+    const visitor = new StatisticsVisitor();
+    return tasks
+      .map((task) => task.accept(visitor))
+      .reduce(
+        (total, stats) => ({
+          tasks: total.tasks + stats.tasks,
+          completed: total.completed + stats.completed,
+        }),
+        { tasks: 0, completed: 0 }
+      );
+  }
+
+  private countOwn(task: TaskComponent): TaskTreeStatistics {
+    return { tasks: 1, completed: task.completed ? 1 : 0 };
+  }
+}
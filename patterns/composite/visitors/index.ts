@@ -0,0 +1,6 @@
+/**
+ * PATTERN VISITOR - Visiteurs concrets
+ */
+
+export { StatisticsVisitor } from './StatisticsVisitor';
+export type { TaskTreeStatistics } from './StatisticsVisitor';
@@ -1,7 +1,10 @@
 import { Observable } from './Observable';
 import { Project, Statistics } from '@/lib/types';
 import { CommandManager } from '../command/CommandManager';
+import type { CommandContext } from '../command/CommandRegistry';
 import { TaskGroup } from '../composite/TaskGroup';
+import { ProgressMode, computeProgress } from '../composite/Progress';
+import { StatisticsVisitor } from '../composite/visitors';
 
 export interface TaskStoreEvent {
   type: 'PROJECT_CHANGED' | 'HISTORY_CHANGED' | 'STATS_CHANGED';
@@ -20,38 +23,77 @@ export class TaskStore extends Observable<TaskStoreEvent> {
     return this.isInitialized;
   }
 
-  initialize(projects: Project[]): void {
+  /**
+   * createContext permet de reconstruire les commandes sauvegardées
+   * (undo/redo après rechargement de la page)
+   */
+  initialize(
+    projects: Project[],
+    createContext?: (project: Project) => CommandContext
+  ): void {
     if (this.isInitialized) {
-      this.syncProjects(projects);
+      this.syncProjects(projects, createContext);
       return;
     }
 
-    this.projects = projects.map(project => {
-      const commandManager = new CommandManager();
-      if (project.savedHistory && project.savedHistory.length > 0) {
-        commandManager.importHistory(project.savedHistory);
-      }
-      return {
-        ...project,
-        commandManager
-      };
-    });
+    this.projects = projects.map(project =>
+      this.withRestoredHistory(project, this.createCommandManager(project), createContext)
+    );
     this.isInitialized = true;
     this.notifyProjectChanged();
   }
 
-  private syncProjects(loadedProjects: Project[]): void {
+  private syncProjects(
+    loadedProjects: Project[],
+    createContext?: (project: Project) => CommandContext
+  ): void {
     this.projects = loadedProjects.map(loadedProject => {
       const existing = this.projects.find(p => p.id === loadedProject.id);
-      return {
-        ...loadedProject,
-        commandManager: existing?.commandManager || new CommandManager()
-      };
+      if (existing?.commandManager) {
+        const synced = { ...loadedProject, commandManager: existing.commandManager };
+        existing.commandManager.setMaxHistorySize(loadedProject.historyLimit);
+        // Relie l'historique en cours au nouvel arbre chargé (nouvelles instances)
+        if (createContext) {
+          existing.commandManager.importHistory(
+            existing.commandManager.exportHistory(),
+            createContext(synced)
+          );
+        }
+        return synced;
+      }
+      return this.withRestoredHistory(
+        loadedProject,
+        this.createCommandManager(loadedProject),
+        createContext
+      );
     });
 
     this.notifyProjectChanged();
   }
 
+  /**
+   * Chaque changement d'état d'une commande (en attente, terminée, échouée)
+   * est relayé aux observateurs du store. La taille de l'historique est
+   * celle choisie pour le projet.
+   */
+  private createCommandManager(project: Project): CommandManager {
+    const commandManager = new CommandManager(project.historyLimit);
+    commandManager.subscribe(() => this.refresh());
+    return commandManager;
+  }
+
+  private withRestoredHistory(
+    project: Project,
+    commandManager: CommandManager,
+    createContext?: (project: Project) => CommandContext
+  ): Project {
+    const restored = { ...project, commandManager };
+    if (project.savedHistory && project.savedHistory.length > 0) {
+      commandManager.importHistory(project.savedHistory, createContext?.(restored));
+    }
+    return restored;
+  }
+
   getProjects(): Project[] {
     return this.projects;
   }
@@ -64,29 +106,32 @@ export class TaskStore extends Observable<TaskStoreEvent> {
     const project = this.getProject(projectId);
     if (!project?.commandManager) {
       if (project) {
-        project.commandManager = new CommandManager();
+        project.commandManager = this.createCommandManager(project);
       }
     }
     return project?.commandManager;
   }
 
-  getStatistics(): Statistics {
-    let totalTasks = 0;
-    let completedTasks = 0;
-
-    this.projects.forEach((project) => {
-      project.tasks.forEach((task) => {
-        totalTasks += task.getTaskCount();
-        completedTasks += task.getCompletedCount();
-      });
-    });
-
-    const percentage = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0;
+  /**
+   * mode choisit la base du pourcentage : nombre de tâches ou effort estimé
+   */
+  getStatistics(mode: ProgressMode = 'count'): Statistics {
+    const tasks = this.projects.flatMap((project) => project.tasks);
+    const count = StatisticsVisitor.collect(tasks);
+    const effort = computeProgress(tasks, 'effort');
 
     return {
-      totalTasks,
-      completedTasks,
-      percentage: Math.round(percentage),
+      totalTasks: count.tasks,
+      completedTasks: count.completed,
+      totalEffort: effort.total,
+      completedEffort: effort.completed,
+      mode,
+      percentage:
+        mode === 'effort'
+          ? effort.percentage
+          : count.tasks > 0
+            ? Math.round((count.completed / count.tasks) * 100)
+            : 0,
     };
   }
 
@@ -0,0 +1,15 @@
+-- Store the full serialized command so undo/redo survives a reload.
+-- command_type holds the CommandRegistry key, command_data the payload:
+-- { description, timestamp, data, undone, sequence }
+
+ALTER TABLE command_history ADD COLUMN IF NOT EXISTS command_type TEXT;
+ALTER TABLE command_history ADD COLUMN IF NOT EXISTS command_data JSONB;
+ALTER TABLE command_history ALTER COLUMN description DROP NOT NULL;
+
+-- saveCommandHistory replaces the whole history, so users must be able to delete their rows
+DROP POLICY IF EXISTS "Users can delete their command history" ON command_history;
+
+CREATE POLICY "Users can delete their command history"
+  ON command_history
+  FOR DELETE
+  USING (user_id = auth.uid());
@@ -0,0 +1,8 @@
+-- Per-project completion propagation policy (see patterns/composite/CompletionPolicy.ts):
+-- 'manual', 'auto-complete-parent' or 'cascade'
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS completion_policy TEXT NOT NULL DEFAULT 'manual';
+
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS projects_completion_policy_check;
+ALTER TABLE projects ADD CONSTRAINT projects_completion_policy_check
+  CHECK (completion_policy IN ('manual', 'auto-complete-parent', 'cascade'));
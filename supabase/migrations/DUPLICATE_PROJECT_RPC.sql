@@ -0,0 +1,97 @@
+-- Copy a project (all its settings), its whole task tree and optionally its members
+-- in one transaction, so a half-copied project never appears.
+-- Every task gets a new id; parent_id and blocked_by_ids are remapped to the copies.
+-- p_keep_completion: keep each task's completed flag (otherwise everything is reset)
+-- p_copy_members: copy project_members (the source owner becomes an admin of the copy);
+--   without members, assignees other than the caller are dropped
+-- The caller owns the copy. Runs with the caller's rights, so RLS still applies.
+
+CREATE OR REPLACE FUNCTION duplicate_project(
+  p_project_id UUID,
+  p_name TEXT DEFAULT NULL,
+  p_keep_completion BOOLEAN DEFAULT FALSE,
+  p_copy_members BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID AS $$
+DECLARE
+  source projects%ROWTYPE;
+  new_project_id UUID;
+BEGIN
+  SELECT * INTO source FROM projects WHERE id = p_project_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'duplicate_project: project % not found', p_project_id;
+  END IF;
+
+  -- Every column is copied, settings added later included; only the identity,
+  -- name, ownership and timestamps are new
+  INSERT INTO projects
+  SELECT (jsonb_populate_record(
+    NULL::projects,
+    to_jsonb(source) || jsonb_build_object(
+      'id', gen_random_uuid(),
+      'name', COALESCE(NULLIF(TRIM(p_name), ''), source.name || ' (copy)'),
+      'owner_id', auth.uid(),
+      'created_at', NOW(),
+      'updated_at', NOW()
+    )
+  )).*
+  RETURNING id INTO new_project_id;
+
+  -- The CTE is materialized once (gen_random_uuid is volatile), so each
+  -- task keeps the same new id wherever it is referenced
+  WITH id_map AS (
+    SELECT id AS old_id, gen_random_uuid() AS new_id
+    FROM tasks
+    WHERE project_id = p_project_id
+  )
+  INSERT INTO tasks (
+    id, project_id, parent_id, title, completed, position, sort_key,
+    due_date, priority, description, tags, assignee_ids, estimate,
+    blocked_by_ids, recurrence
+  )
+  SELECT
+    m.new_id,
+    new_project_id,
+    parent_map.new_id,
+    t.title,
+    p_keep_completion AND t.completed,
+    t.position,
+    t.sort_key,
+    t.due_date,
+    t.priority,
+    t.description,
+    t.tags,
+    CASE
+      WHEN p_copy_members THEN t.assignee_ids
+      ELSE ARRAY(SELECT a FROM unnest(t.assignee_ids) AS a WHERE a = auth.uid())
+    END,
+    t.estimate,
+    -- Blockers that no longer exist are dropped
+    ARRAY(
+      SELECT blocker_map.new_id
+      FROM unnest(t.blocked_by_ids) AS b
+      JOIN id_map AS blocker_map ON blocker_map.old_id = b
+    ),
+    t.recurrence
+  FROM tasks AS t
+  JOIN id_map AS m ON m.old_id = t.id
+  LEFT JOIN id_map AS parent_map ON parent_map.old_id = t.parent_id
+  WHERE t.project_id = p_project_id;
+
+  IF p_copy_members THEN
+    INSERT INTO project_members (project_id, user_id, role, invited_by, accepted_at)
+    SELECT new_project_id, pm.user_id, pm.role, auth.uid(), NOW()
+    FROM project_members AS pm
+    WHERE pm.project_id = p_project_id AND pm.user_id <> auth.uid();
+
+    IF source.owner_id <> auth.uid() THEN
+      INSERT INTO project_members (project_id, user_id, role, invited_by, accepted_at)
+      VALUES (new_project_id, source.owner_id, 'admin', auth.uid(), NOW());
+    END IF;
+  END IF;
+
+  RETURN new_project_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION duplicate_project(UUID, TEXT, BOOLEAN, BOOLEAN) TO authenticated;
@@ -0,0 +1,64 @@
+-- Fractional (lexicographic) ordering keys for tasks, see lib/sortKey.ts.
+-- Inserting or moving a task only writes that task's sort_key.
+-- position is kept for older clients but is no longer maintained.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS sort_key TEXT COLLATE "C";
+
+-- Convert existing integer positions: fixed-width rank + 'V' (keys never end with '0')
+WITH ranked_tasks AS (
+  SELECT
+    id,
+    ROW_NUMBER() OVER (
+      PARTITION BY project_id, parent_id
+      ORDER BY position, created_at
+    ) AS rank
+  FROM tasks
+  WHERE sort_key IS NULL
+)
+UPDATE tasks
+SET sort_key = LPAD(ranked_tasks.rank::TEXT, 8, '0') || 'V'
+FROM ranked_tasks
+WHERE tasks.id = ranked_tasks.id;
+
+ALTER TABLE tasks ALTER COLUMN sort_key SET DEFAULT 'V';
+ALTER TABLE tasks ALTER COLUMN sort_key SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_sort_key ON tasks(project_id, parent_id, sort_key);
+
+-- reorder_tasks now also accepts sort_key; every field but id is optional
+-- p_updates: [{ "id": uuid, "sort_key"?: text, "position"?: int, "parent_id"?: uuid | null }]
+DROP FUNCTION IF EXISTS reorder_tasks(JSONB);
+
+CREATE OR REPLACE FUNCTION reorder_tasks(p_updates JSONB)
+RETURNS TABLE (id UUID, parent_id UUID, "position" INTEGER, sort_key TEXT) AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE tasks AS t
+  SET
+    sort_key = COALESCE(u.value->>'sort_key', t.sort_key),
+    position = COALESCE((u.value->>'position')::INTEGER, t.position),
+    parent_id = CASE
+      WHEN u.value ? 'parent_id' THEN (u.value->>'parent_id')::UUID
+      ELSE t.parent_id
+    END
+  FROM jsonb_array_elements(p_updates) AS u
+  WHERE t.id = (u.value->>'id')::UUID;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  -- Any missing or forbidden row aborts the whole reorder
+  IF updated_count <> jsonb_array_length(p_updates) THEN
+    RAISE EXCEPTION 'reorder_tasks: % of % tasks could be updated',
+      updated_count, jsonb_array_length(p_updates);
+  END IF;
+
+  RETURN QUERY
+    SELECT t.id, t.parent_id, t.position, t.sort_key
+    FROM tasks AS t
+    WHERE t.id IN (SELECT (u.value->>'id')::UUID FROM jsonb_array_elements(p_updates) AS u)
+    ORDER BY t.parent_id NULLS FIRST, t.sort_key, t.id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION reorder_tasks(JSONB) TO authenticated;
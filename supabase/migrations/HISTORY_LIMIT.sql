@@ -0,0 +1,8 @@
+-- Per-project undo history budget: number of commands kept by the CommandManager
+-- (see patterns/command/CommandManager.ts, DEFAULT_HISTORY_SIZE)
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS history_limit INTEGER NOT NULL DEFAULT 20;
+
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS projects_history_limit_check;
+ALTER TABLE projects ADD CONSTRAINT projects_history_limit_check
+  CHECK (history_limit BETWEEN 1 AND 500);
@@ -0,0 +1,23 @@
+-- Names and emails of a project's owner and members, for the assignee picker and
+-- the members list. profiles RLS only exposes the caller's own row, so this runs
+-- with the definer's rights and only answers people who belong to the project.
+
+CREATE OR REPLACE FUNCTION get_project_member_profiles(p_project_id UUID)
+RETURNS TABLE (user_id UUID, email TEXT, full_name TEXT, is_owner BOOLEAN) AS $$
+  WITH people AS (
+    SELECT pr.owner_id AS user_id, TRUE AS is_owner
+    FROM projects AS pr
+    WHERE pr.id = p_project_id
+    UNION
+    SELECT pm.user_id, FALSE
+    FROM project_members AS pm
+    WHERE pm.project_id = p_project_id
+  )
+  SELECT p.id, p.email, p.full_name, people.is_owner
+  FROM people
+  JOIN profiles AS p ON p.id = people.user_id
+  WHERE auth.uid() IN (SELECT people.user_id FROM people)
+  ORDER BY people.is_owner DESC, COALESCE(NULLIF(p.full_name, ''), p.email);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_project_member_profiles(UUID) TO authenticated;
@@ -0,0 +1,57 @@
+-- Project templates: a project's task tree saved as a versioned JSON document
+-- (see patterns/composite/TaskTemplate.ts), instantiated into fresh tasks rows.
+-- There is no workspace table: a template is either private to its owner or
+-- shared with everyone who owns or is a member of the project it was saved from
+-- (replaced by the owner's collaborators in TEMPLATE_SHARING.sql).
+
+CREATE TABLE IF NOT EXISTS project_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  visibility TEXT NOT NULL DEFAULT 'private' CHECK (visibility IN ('private', 'shared')),
+  tree JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_templates_owner ON project_templates(owner_id);
+CREATE INDEX IF NOT EXISTS idx_project_templates_source ON project_templates(source_project_id);
+
+ALTER TABLE project_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "View own and shared templates" ON project_templates;
+DROP POLICY IF EXISTS "Insert own templates" ON project_templates;
+DROP POLICY IF EXISTS "Update own templates" ON project_templates;
+DROP POLICY IF EXISTS "Delete own templates" ON project_templates;
+
+CREATE POLICY "View own and shared templates"
+  ON project_templates
+  FOR SELECT
+  USING (
+    owner_id = auth.uid()
+    OR (
+      visibility = 'shared'
+      AND source_project_id IN (
+        SELECT id FROM projects WHERE owner_id = auth.uid()
+        UNION
+        SELECT project_id FROM project_members WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Insert own templates"
+  ON project_templates
+  FOR INSERT
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Update own templates"
+  ON project_templates
+  FOR UPDATE
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Delete own templates"
+  ON project_templates
+  FOR DELETE
+  USING (owner_id = auth.uid());
@@ -0,0 +1,30 @@
+-- Deleting a task removes its id from the blocked_by_ids of every other task,
+-- so no dependency points to a task that no longer exists. Undoing a deletion
+-- restores the dependencies from the command history (see DeleteTaskCommand).
+-- The trigger fires for each row, including the subtasks removed by ON DELETE CASCADE.
+
+CREATE OR REPLACE FUNCTION prune_deleted_blocker()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE tasks
+  SET blocked_by_ids = array_remove(blocked_by_ids, OLD.id)
+  WHERE project_id = OLD.project_id
+    AND OLD.id = ANY (blocked_by_ids);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prune_deleted_blocker ON tasks;
+CREATE TRIGGER prune_deleted_blocker
+  AFTER DELETE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION prune_deleted_blocker();
+
+-- Ids of tasks deleted before this migration
+UPDATE tasks
+SET blocked_by_ids = ARRAY(
+  SELECT blocker_id
+  FROM unnest(tasks.blocked_by_ids) AS blocker_id
+  WHERE EXISTS (SELECT 1 FROM tasks AS blocker WHERE blocker.id = blocker_id)
+)
+WHERE blocked_by_ids <> '{}';
@@ -0,0 +1,37 @@
+-- Atomic, single round-trip reorder used by drag & drop.
+-- p_updates: [{ "id": uuid, "position": int, "parent_id"?: uuid | null }]
+-- parent_id is only changed when the key is present.
+-- Runs with the caller's rights, so the tasks RLS policies still apply.
+
+CREATE OR REPLACE FUNCTION reorder_tasks(p_updates JSONB)
+RETURNS TABLE (id UUID, parent_id UUID, "position" INTEGER) AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE tasks AS t
+  SET
+    position = (u.value->>'position')::INTEGER,
+    parent_id = CASE
+      WHEN u.value ? 'parent_id' THEN (u.value->>'parent_id')::UUID
+      ELSE t.parent_id
+    END
+  FROM jsonb_array_elements(p_updates) AS u
+  WHERE t.id = (u.value->>'id')::UUID;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  -- Any missing or forbidden row aborts the whole reorder
+  IF updated_count <> jsonb_array_length(p_updates) THEN
+    RAISE EXCEPTION 'reorder_tasks: % of % tasks could be updated',
+      updated_count, jsonb_array_length(p_updates);
+  END IF;
+
+  RETURN QUERY
+    SELECT t.id, t.parent_id, t.position
+    FROM tasks AS t
+    WHERE t.id IN (SELECT (u.value->>'id')::UUID FROM jsonb_array_elements(p_updates) AS u)
+    ORDER BY t.parent_id NULLS FIRST, t.position;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION reorder_tasks(JSONB) TO authenticated;
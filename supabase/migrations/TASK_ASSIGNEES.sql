@@ -0,0 +1,7 @@
+-- Tasks can be assigned to one or more project members (user ids).
+-- Stored as an array on the task row so a task snapshot restores its assignees too.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS assignee_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- "My tasks" looks tasks up by assignee across projects
+CREATE INDEX IF NOT EXISTS idx_tasks_assignee_ids ON tasks USING GIN (assignee_ids);
@@ -0,0 +1,14 @@
+-- A task can be blocked by other tasks of the same project (ids of its blockers).
+-- Stored as an array on the blocked task's row, like assignee_ids, so a task snapshot
+-- restores its dependencies too. Ids of deleted blockers are removed by a trigger
+-- (see PRUNE_DELETED_BLOCKERS.sql).
+-- Cycles are rejected by the app before a dependency is written.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS blocked_by_ids UUID[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_not_blocked_by_itself;
+ALTER TABLE tasks ADD CONSTRAINT tasks_not_blocked_by_itself
+  CHECK (NOT (id = ANY (blocked_by_ids)));
+
+-- Finding the tasks blocked by a given task
+CREATE INDEX IF NOT EXISTS idx_tasks_blocked_by_ids ON tasks USING GIN (blocked_by_ids);
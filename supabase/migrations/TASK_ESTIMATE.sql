@@ -0,0 +1,8 @@
+-- Optional effort estimate (points or hours) used for weighted progress.
+-- Tasks without an estimate weigh 1 (see patterns/composite/Progress.ts).
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS estimate NUMERIC;
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_estimate_check;
+ALTER TABLE tasks ADD CONSTRAINT tasks_estimate_check
+  CHECK (estimate IS NULL OR estimate >= 0);
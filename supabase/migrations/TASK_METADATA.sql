@@ -0,0 +1,14 @@
+-- Optional task metadata: due date, priority, markdown description and tags.
+-- Every column is nullable (tags defaults to an empty list) so existing rows stay valid.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS due_date DATE;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS priority TEXT;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_priority_check;
+ALTER TABLE tasks ADD CONSTRAINT tasks_priority_check
+  CHECK (priority IS NULL OR priority IN ('low', 'medium', 'high', 'urgent'));
+
+CREATE INDEX IF NOT EXISTS idx_tasks_due_date ON tasks(project_id, due_date)
+  WHERE due_date IS NOT NULL;
@@ -0,0 +1,10 @@
+-- Recurring tasks: a rule written in a subset of RRULE (RFC 5545), e.g.
+-- 'FREQ=WEEKLY;BYDAY=MO' or 'FREQ=MONTHLY;BYMONTHDAY=-1'.
+-- The rule is parsed and validated by the app (patterns/composite/Recurrence.ts).
+-- Completing an occurrence creates the next one and moves the rule onto it.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurrence TEXT;
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_recurrence_freq;
+ALTER TABLE tasks ADD CONSTRAINT tasks_recurrence_freq
+  CHECK (recurrence IS NULL OR recurrence ~* 'FREQ=(DAILY|WEEKLY|MONTHLY)');
@@ -0,0 +1,34 @@
+-- Shared templates are visible to everyone the template owner works with:
+-- anyone who owns or belongs to a project together with them (there is no
+-- workspace table). Sharing no longer depends on the source project, so a
+-- template stays visible after that project is deleted.
+
+-- Whether the caller and p_user_id own or belong to a common project.
+-- Runs as definer: RLS hides the other members of projects the caller doesn't own.
+CREATE OR REPLACE FUNCTION shares_project_with(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  WITH memberships AS (
+    SELECT id AS project_id, owner_id AS user_id FROM projects
+    UNION
+    SELECT project_id, user_id FROM project_members
+  )
+  SELECT EXISTS (
+    SELECT 1
+    FROM memberships AS mine
+    JOIN memberships AS theirs ON theirs.project_id = mine.project_id
+    WHERE mine.user_id = auth.uid()
+      AND theirs.user_id = p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION shares_project_with(UUID) TO authenticated;
+
+DROP POLICY IF EXISTS "View own and shared templates" ON project_templates;
+
+CREATE POLICY "View own and shared templates"
+  ON project_templates
+  FOR SELECT
+  USING (
+    owner_id = auth.uid()
+    OR (visibility = 'shared' AND shares_project_with(owner_id))
+  );
@@ -0,0 +1,72 @@
+-- Sibling sort keys must be unique: two equal keys leave no room for a key
+-- between them (see lib/sortKey.ts), so moving or inserting next to them fails.
+-- A row inserted without a sort_key is appended after its siblings by the
+-- server, in the same statement, instead of getting a shared default.
+
+-- Rebalance every sibling list that already holds duplicates (same order as before)
+WITH duplicated_parents AS (
+  SELECT DISTINCT project_id, parent_id
+  FROM tasks
+  GROUP BY project_id, parent_id, sort_key
+  HAVING COUNT(*) > 1
+),
+ranked_tasks AS (
+  SELECT
+    t.id,
+    ROW_NUMBER() OVER (
+      PARTITION BY t.project_id, t.parent_id
+      ORDER BY t.sort_key, t.created_at, t.id
+    ) AS rank
+  FROM tasks AS t
+  JOIN duplicated_parents AS d
+    ON d.project_id = t.project_id
+    AND d.parent_id IS NOT DISTINCT FROM t.parent_id
+)
+UPDATE tasks
+SET sort_key = LPAD(ranked_tasks.rank::TEXT, 8, '0') || 'V'
+FROM ranked_tasks
+WHERE tasks.id = ranked_tasks.id;
+
+-- Key after the last sibling, computed like generateKeyBetween(last, null)
+CREATE OR REPLACE FUNCTION assign_task_sort_key()
+RETURNS TRIGGER AS $$
+DECLARE
+  digits CONSTANT TEXT := '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+  last_key TEXT;
+  prefix TEXT := '';
+  digit INTEGER;
+BEGIN
+  IF NEW.sort_key IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT MAX(sort_key) INTO last_key
+  FROM tasks
+  WHERE project_id = NEW.project_id
+    AND parent_id IS NOT DISTINCT FROM NEW.parent_id;
+
+  last_key := COALESCE(last_key, '');
+  LOOP
+    digit := CASE WHEN last_key = '' THEN 0 ELSE STRPOS(digits, LEFT(last_key, 1)) - 1 END;
+    EXIT WHEN digit < 61;
+    -- 'z' has no digit above it: keep it and look at the next one
+    prefix := prefix || 'z';
+    last_key := SUBSTR(last_key, 2);
+  END LOOP;
+
+  NEW.sort_key := prefix || SUBSTR(digits, (digit + 63) / 2 + 1, 1);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS assign_task_sort_key ON tasks;
+CREATE TRIGGER assign_task_sort_key
+  BEFORE INSERT ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_task_sort_key();
+
+ALTER TABLE tasks ALTER COLUMN sort_key DROP DEFAULT;
+
+-- Root tasks have no parent_id: the project id stands in for it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_unique_sort_key
+  ON tasks (project_id, COALESCE(parent_id, project_id), sort_key);
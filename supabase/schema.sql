@@ -30,6 +30,11 @@ CREATE TABLE IF NOT EXISTS public.projects (
   name TEXT NOT NULL,
   description TEXT,
   owner_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  -- Completion propagation (see patterns/composite/CompletionPolicy.ts)
+  completion_policy TEXT NOT NULL DEFAULT 'manual'
+    CHECK (completion_policy IN ('manual', 'auto-complete-parent', 'cascade')),
+  -- Undo history budget (see DEFAULT_HISTORY_SIZE in patterns/command/CommandManager.ts)
+  history_limit INTEGER NOT NULL DEFAULT 20 CHECK (history_limit BETWEEN 1 AND 500),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -53,9 +58,20 @@ CREATE TABLE IF NOT EXISTS public.tasks (
   parent_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE,
   title TEXT NOT NULL,
   completed BOOLEAN DEFAULT FALSE,
-  position INTEGER DEFAULT 0,
+  position INTEGER DEFAULT 0, -- Legacy integer order, no longer maintained
+  sort_key TEXT COLLATE "C" NOT NULL, -- Fractional order among siblings (see lib/sortKey.ts)
+  due_date DATE,
+  priority TEXT CHECK (priority IS NULL OR priority IN ('low', 'medium', 'high', 'urgent')),
+  description TEXT, -- Markdown
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  assignee_ids UUID[] NOT NULL DEFAULT '{}', -- Project members responsible for the task
+  estimate NUMERIC CHECK (estimate IS NULL OR estimate >= 0), -- Effort (points or hours)
+  blocked_by_ids UUID[] NOT NULL DEFAULT '{}', -- Tasks that must be completed first
+  -- RRULE subset, e.g. 'FREQ=WEEKLY;BYDAY=MO' (see patterns/composite/Recurrence.ts)
+  recurrence TEXT CHECK (recurrence IS NULL OR recurrence ~* 'FREQ=(DAILY|WEEKLY|MONTHLY)'),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT tasks_not_blocked_by_itself CHECK (NOT (id = ANY (blocked_by_ids)))
 );
 
 -- COMMAND HISTORY TABLE
@@ -63,10 +79,25 @@ CREATE TABLE IF NOT EXISTS public.command_history (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
   project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
   user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
-  description TEXT NOT NULL,
+  description TEXT,
+  command_type TEXT,
+  command_data JSONB,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- PROJECT TEMPLATES TABLE
+-- A project's task tree saved as a versioned JSON document (see patterns/composite/TaskTemplate.ts)
+CREATE TABLE IF NOT EXISTS public.project_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  source_project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  visibility TEXT NOT NULL DEFAULT 'private' CHECK (visibility IN ('private', 'shared')),
+  tree JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
 -- =============================================
 -- STEP 2: ENABLE ROW LEVEL SECURITY
 -- =============================================
@@ -76,6 +107,7 @@ ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.project_members ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.tasks ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.command_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_templates ENABLE ROW LEVEL SECURITY;
 
 -- =============================================
 -- STEP 3: CREATE POLICIES (now all tables exist)
@@ -241,6 +273,52 @@ CREATE POLICY "Users can create command history"
   ON public.command_history FOR INSERT
   WITH CHECK (user_id = auth.uid());
 
+CREATE POLICY "Users can delete their command history"
+  ON public.command_history FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Policies for PROJECT_TEMPLATES
+-- Shared templates are visible to everyone who owns or belongs to a project with
+-- their owner (see migrations/TEMPLATE_SHARING.sql). Runs as definer: RLS hides
+-- the other members of projects the caller doesn't own.
+CREATE OR REPLACE FUNCTION public.shares_project_with(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  WITH memberships AS (
+    SELECT id AS project_id, owner_id AS user_id FROM public.projects
+    UNION
+    SELECT project_id, user_id FROM public.project_members
+  )
+  SELECT EXISTS (
+    SELECT 1
+    FROM memberships AS mine
+    JOIN memberships AS theirs ON theirs.project_id = mine.project_id
+    WHERE mine.user_id = auth.uid()
+      AND theirs.user_id = p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.shares_project_with(UUID) TO authenticated;
+
+CREATE POLICY "View own and shared templates"
+  ON public.project_templates FOR SELECT
+  USING (
+    owner_id = auth.uid()
+    OR (visibility = 'shared' AND public.shares_project_with(owner_id))
+  );
+
+CREATE POLICY "Insert own templates"
+  ON public.project_templates FOR INSERT
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Update own templates"
+  ON public.project_templates FOR UPDATE
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Delete own templates"
+  ON public.project_templates FOR DELETE
+  USING (owner_id = auth.uid());
+
 -- =============================================
 -- STEP 4: FUNCTIONS & TRIGGERS
 -- =============================================
@@ -291,6 +369,215 @@ CREATE TRIGGER handle_tasks_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION public.handle_updated_at();
 
+-- Atomic, single round-trip reorder used by drag & drop (see migrations/REORDER_TASKS_RPC.sql)
+-- p_updates: [{ "id": uuid, "sort_key"?: text, "position"?: int, "parent_id"?: uuid | null }]
+-- Runs with the caller's rights, so the tasks RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.reorder_tasks(p_updates JSONB)
+RETURNS TABLE (id UUID, parent_id UUID, "position" INTEGER, sort_key TEXT) AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE public.tasks AS t
+  SET
+    sort_key = COALESCE(u.value->>'sort_key', t.sort_key),
+    position = COALESCE((u.value->>'position')::INTEGER, t.position),
+    parent_id = CASE
+      WHEN u.value ? 'parent_id' THEN (u.value->>'parent_id')::UUID
+      ELSE t.parent_id
+    END
+  FROM jsonb_array_elements(p_updates) AS u
+  WHERE t.id = (u.value->>'id')::UUID;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  -- Any missing or forbidden row aborts the whole reorder
+  IF updated_count <> jsonb_array_length(p_updates) THEN
+    RAISE EXCEPTION 'reorder_tasks: % of % tasks could be updated',
+      updated_count, jsonb_array_length(p_updates);
+  END IF;
+
+  RETURN QUERY
+    SELECT t.id, t.parent_id, t.position, t.sort_key
+    FROM public.tasks AS t
+    WHERE t.id IN (SELECT (u.value->>'id')::UUID FROM jsonb_array_elements(p_updates) AS u)
+    ORDER BY t.parent_id NULLS FIRST, t.sort_key, t.id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public.reorder_tasks(JSONB) TO authenticated;
+
+-- Names and emails of a project's owner and members (see migrations/PROJECT_MEMBER_PROFILES.sql).
+-- profiles RLS only exposes the caller's own row: this runs as definer and
+-- only answers people who belong to the project.
+CREATE OR REPLACE FUNCTION public.get_project_member_profiles(p_project_id UUID)
+RETURNS TABLE (user_id UUID, email TEXT, full_name TEXT, is_owner BOOLEAN) AS $$
+  WITH people AS (
+    SELECT pr.owner_id AS user_id, TRUE AS is_owner
+    FROM public.projects AS pr
+    WHERE pr.id = p_project_id
+    UNION
+    SELECT pm.user_id, FALSE
+    FROM public.project_members AS pm
+    WHERE pm.project_id = p_project_id
+  )
+  SELECT p.id, p.email, p.full_name, people.is_owner
+  FROM people
+  JOIN public.profiles AS p ON p.id = people.user_id
+  WHERE auth.uid() IN (SELECT people.user_id FROM people)
+  ORDER BY people.is_owner DESC, COALESCE(NULLIF(p.full_name, ''), p.email);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_project_member_profiles(UUID) TO authenticated;
+
+-- A task inserted without sort_key is appended after its siblings
+-- (see migrations/UNIQUE_SORT_KEYS.sql), computed like generateKeyBetween(last, null)
+CREATE OR REPLACE FUNCTION public.assign_task_sort_key()
+RETURNS TRIGGER AS $$
+DECLARE
+  digits CONSTANT TEXT := '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+  last_key TEXT;
+  prefix TEXT := '';
+  digit INTEGER;
+BEGIN
+  IF NEW.sort_key IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT MAX(sort_key) INTO last_key
+  FROM public.tasks
+  WHERE project_id = NEW.project_id
+    AND parent_id IS NOT DISTINCT FROM NEW.parent_id;
+
+  last_key := COALESCE(last_key, '');
+  LOOP
+    digit := CASE WHEN last_key = '' THEN 0 ELSE STRPOS(digits, LEFT(last_key, 1)) - 1 END;
+    EXIT WHEN digit < 61;
+    -- 'z' has no digit above it: keep it and look at the next one
+    prefix := prefix || 'z';
+    last_key := SUBSTR(last_key, 2);
+  END LOOP;
+
+  NEW.sort_key := prefix || SUBSTR(digits, (digit + 63) / 2 + 1, 1);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER assign_task_sort_key
+  BEFORE INSERT ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_task_sort_key();
+
+
+-- Deleting a task removes it from the other tasks' blockers
+-- (see migrations/PRUNE_DELETED_BLOCKERS.sql)
+CREATE OR REPLACE FUNCTION public.prune_deleted_blocker()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.tasks
+  SET blocked_by_ids = array_remove(blocked_by_ids, OLD.id)
+  WHERE project_id = OLD.project_id
+    AND OLD.id = ANY (blocked_by_ids);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prune_deleted_blocker
+  AFTER DELETE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prune_deleted_blocker();
+
+-- Copy a project, its task tree and optionally its members in one transaction
+-- (see migrations/DUPLICATE_PROJECT_RPC.sql)
+CREATE OR REPLACE FUNCTION public.duplicate_project(
+  p_project_id UUID,
+  p_name TEXT DEFAULT NULL,
+  p_keep_completion BOOLEAN DEFAULT FALSE,
+  p_copy_members BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID AS $$
+DECLARE
+  source public.projects%ROWTYPE;
+  new_project_id UUID;
+BEGIN
+  SELECT * INTO source FROM public.projects WHERE id = p_project_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'duplicate_project: project % not found', p_project_id;
+  END IF;
+
+  -- Every column is copied, settings added later included; only the identity,
+  -- name, ownership and timestamps are new
+  INSERT INTO public.projects
+  SELECT (jsonb_populate_record(
+    NULL::public.projects,
+    to_jsonb(source) || jsonb_build_object(
+      'id', gen_random_uuid(),
+      'name', COALESCE(NULLIF(TRIM(p_name), ''), source.name || ' (copy)'),
+      'owner_id', auth.uid(),
+      'created_at', NOW(),
+      'updated_at', NOW()
+    )
+  )).*
+  RETURNING id INTO new_project_id;
+
+  -- The CTE is materialized once (gen_random_uuid is volatile), so each
+  -- task keeps the same new id wherever it is referenced
+  WITH id_map AS (
+    SELECT id AS old_id, gen_random_uuid() AS new_id
+    FROM public.tasks
+    WHERE project_id = p_project_id
+  )
+  INSERT INTO public.tasks (
+    id, project_id, parent_id, title, completed, position, sort_key,
+    due_date, priority, description, tags, assignee_ids, estimate,
+    blocked_by_ids, recurrence
+  )
+  SELECT
+    m.new_id,
+    new_project_id,
+    parent_map.new_id,
+    t.title,
+    p_keep_completion AND t.completed,
+    t.position,
+    t.sort_key,
+    t.due_date,
+    t.priority,
+    t.description,
+    t.tags,
+    CASE
+      WHEN p_copy_members THEN t.assignee_ids
+      ELSE ARRAY(SELECT a FROM unnest(t.assignee_ids) AS a WHERE a = auth.uid())
+    END,
+    t.estimate,
+    -- Blockers that no longer exist are dropped
+    ARRAY(
+      SELECT blocker_map.new_id
+      FROM unnest(t.blocked_by_ids) AS b
+      JOIN id_map AS blocker_map ON blocker_map.old_id = b
+    ),
+    t.recurrence
+  FROM public.tasks AS t
+  JOIN id_map AS m ON m.old_id = t.id
+  LEFT JOIN id_map AS parent_map ON parent_map.old_id = t.parent_id
+  WHERE t.project_id = p_project_id;
+
+  IF p_copy_members THEN
+    INSERT INTO public.project_members (project_id, user_id, role, invited_by, accepted_at)
+    SELECT new_project_id, pm.user_id, pm.role, auth.uid(), NOW()
+    FROM public.project_members AS pm
+    WHERE pm.project_id = p_project_id AND pm.user_id <> auth.uid();
+
+    IF source.owner_id <> auth.uid() THEN
+      INSERT INTO public.project_members (project_id, user_id, role, invited_by, accepted_at)
+      VALUES (new_project_id, source.owner_id, 'admin', auth.uid(), NOW());
+    END IF;
+  END IF;
+
+  RETURN new_project_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public.duplicate_project(UUID, TEXT, BOOLEAN, BOOLEAN) TO authenticated;
+
 -- =============================================
 -- STEP 5: INDEXES for performance
 -- =============================================
@@ -300,7 +587,17 @@ CREATE INDEX IF NOT EXISTS idx_project_members_project_id ON public.project_memb
 CREATE INDEX IF NOT EXISTS idx_project_members_user_id ON public.project_members(user_id);
 CREATE INDEX IF NOT EXISTS idx_tasks_project_id ON public.tasks(project_id);
 CREATE INDEX IF NOT EXISTS idx_tasks_parent_id ON public.tasks(parent_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_sort_key ON public.tasks(project_id, parent_id, sort_key);
+CREATE INDEX IF NOT EXISTS idx_tasks_due_date ON public.tasks(project_id, due_date)
+  WHERE due_date IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_assignee_ids ON public.tasks USING GIN (assignee_ids);
+CREATE INDEX IF NOT EXISTS idx_tasks_blocked_by_ids ON public.tasks USING GIN (blocked_by_ids);
+-- Sibling sort keys are unique; root tasks use the project id as their parent
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_unique_sort_key
+  ON public.tasks(project_id, COALESCE(parent_id, project_id), sort_key);
 CREATE INDEX IF NOT EXISTS idx_command_history_project_id ON public.command_history(project_id);
+CREATE INDEX IF NOT EXISTS idx_project_templates_owner ON public.project_templates(owner_id);
+CREATE INDEX IF NOT EXISTS idx_project_templates_source ON public.project_templates(source_project_id);
 
 -- =============================================
 -- SUCCESS! Schema created